@@ -12,45 +12,98 @@ import ImportReviewModal from './components/ImportReviewModal';
 import { useNotification } from './components/NotificationContext';
 import NotificationContainer from './components/Notification';
 import ConfirmDialog from './components/ConfirmDialog';
-import { API_BASE } from './components/config';
+import OfflineBanner from './components/OfflineBanner';
+import ContractReport from './components/ContractReport';
+import SessionExpiryDialog from './components/SessionExpiryDialog';
+import ReloginOverlay from './components/ReloginOverlay';
+import AccountMenu from './components/AccountMenu';
+import ChangePasswordDialog from './components/ChangePasswordDialog';
+import FilterChips from './components/FilterChips';
+import { BACKEND_PROFILES, getActiveBackend } from './components/config';
+import { getSessionEmail, saveSessionProfile } from './auth/session';
+import { subscribeSessionEvents, switchBackend } from './auth/sessionBus';
 import type { JSX } from 'react';
 import type {
-  AuthHeadersFn,
   ConfirmDialogRequest,
   ConfirmDialogState,
   NewUserForm,
   RecentUser,
+  SortKey,
   User,
   ImportPreview
 } from './types';
 
 import './App.css';
-import { useAppDispatch, useAppSelector } from './store/hooks';
+import { useAppDispatch, useAppSelector, useCan } from './store/hooks';
+import { setOffline, setQueuedCount } from './store/offlineSlice';
+import { setCapabilities } from './store/backendSlice';
+import { expire, receiveSessionEvent, requestSessionSync, setAuthProfile, signOut } from './store/authSlice';
+import { loadSavedViews, toListView, viewMatches } from './store/savedViewsSlice';
+import { toAuthProfile } from './auth/permissions';
+import PermissionGate from './components/PermissionGate';
+import {
+  refreshUserLists,
+  removeListedUsers,
+  replaceListedUser,
+  useBulkDeleteUsersMutation,
+  useConfirmImportMutation,
+  useCreateUserMutation,
+  useDeleteUserMutation,
+  useGetUserQuery,
+  useListDepartmentsQuery,
+  useListFacetsQuery,
+  useListUsersQuery,
+  usersApi
+} from './store/usersApi';
+import { formatApiErrorMessage } from './utils/api';
+import { encodeQuery } from './utils/advancedQuery';
+import { toSearchParams, type LiftedSearch } from './utils/searchSyntax';
+import { searchTerms } from './utils/searchHighlight';
+import {
+  apiClient,
+  isHandledApiError,
+  setApiClientHandlers,
+  toParsedApiError,
+  type UserFacetParams,
+  type UserListParams
+} from './utils/apiClient';
+import { isProvisionalId } from './utils/offlineStore';
+import { replayQueuedMutations } from './utils/offlineSync';
+import { connectDirectoryEvents } from './utils/realtime';
+import {
+  basicSortKeys,
+  currentLocation,
+  hasListView,
+  readListView,
+  readRoute,
+  toLocation,
+  type AppRoute,
+  type ListView
+} from './utils/routing';
 
 import {
-  addUserToFront,
+  applyListView,
+  applySearch,
+  clearRemoteChange,
   clearSelectedUsers,
-  clearUsers,
-  removeUser,
+  markRemoteChange,
   resetFilters as resetFiltersAction,
   setBulkMode,
+  setCityFilters,
   setCurrentPage,
-  setDepartmentFilter,
-  setDepartments,
+  setDepartmentFilters,
   setGenderFilter,
-  setIsLoading,
   setRateLimitInfo,
   setSearchQuery,
   setSelectedUsers,
-  setSortBy,
-  setSortOrder,
-  setTotalUsers,
-  setUsers,
-  toggleUserSelection as toggleUserSelectionAction,
-  updateUser
+  setSortKeys,
+  toggleUserSelection as toggleUserSelectionAction
 } from './store/usersSlice';
 
 const USERS_PER_PAGE = 30;
+const REMOTE_CHANGE_BADGE_MS = 8000;
+const NO_USERS: User[] = [];
+const NO_DEPARTMENTS: string[] = [];
 
 const defaultNewUser:NewUserForm  = {
   firstName: '',
@@ -75,65 +128,45 @@ const defaultConfirmDialog: ConfirmDialogState = {
 const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const phoneRegex = /^\+?[1-9]\d{7,14}$/;
 
-const authHeaders: AuthHeadersFn = () => {
-  const token = sessionStorage.getItem('token');
-  const headers: Record<string, string> = {};
-  if (token) {
-    headers.Authorization = `Bearer ${token}`; //KEY VALUE for header
+function describeUsers(users: User[]): string {
+  if (users.length === 1) {
+    const { firstName, lastName } = users[0];
+    return `${firstName} ${lastName}`.trim() || 'the user';
   }
-  return headers;
-};
-
-interface UsersResponse {
-  users: Array<Record<string, unknown>>;
-  total?: number;
-}
-
-function normalizeUser(raw: Record<string, unknown>): User {
-  const idValue = String(raw._id ?? raw.id ?? '');
-  const rawImage = typeof raw.image === 'string' ? raw.image : null;
-  const image =
-    rawImage && rawImage.startsWith('http') ? rawImage : rawImage ? `${API_BASE}${rawImage}` : null;
-
-  return {
-    _id: idValue,
-    id: idValue,
-    firstName: String(raw.firstName ?? ''),
-    lastName: String(raw.lastName ?? ''),
-    email: String(raw.email ?? ''),
-    phone: String(raw.phone ?? ''),
-    gender: raw.gender === 'female' ? 'female' : 'male',
-    city: raw.city ? String(raw.city) : '',
-    department: raw.department ? String(raw.department) : '',
-    image,
-    status: raw.status ? String(raw.status) : undefined,
-    createdAt: raw.createdAt ? String(raw.createdAt) : undefined,
-    updatedAt: raw.updatedAt ? String(raw.updatedAt) : undefined,
-    deletedAt: raw.deletedAt ? String(raw.deletedAt) : undefined
-  };
+  return `${users.length} users`;
 }
 
 function App(): JSX.Element {
   const { showNotification } = useNotification(); // NotificationContext hook, always on top
-  const deptSelectRef = useRef<HTMLSelectElement | null>(null);
   const dispatch = useAppDispatch();
   const {
-    items: users,
-    departments,
     searchQuery,
     genderFilter,
-    departmentFilter,
+    departmentFilters,
+    cityFilters,
     selectedUsers,
     bulkMode,
     currentPage,
-    totalUsers,
-    sortBy,
-    sortOrder,
-    isLoading,
-    rateLimitInfo
+    sortKeys,
+    advancedQuery,
+    rateLimitInfo,
+    remoteChanges
   } = useAppSelector((state) => state.users);
-
-  const [isLoggedIn] = useState<boolean>(() => sessionStorage.getItem('isLoggedIn') === 'true');
+  const { isOffline, queuedCount, cachedAt } = useAppSelector((state) => state.offline);
+  const { activeId: currentBackend, capabilities } = useAppSelector((state) => state.backend);
+  const canRealtime = capabilities.includes('realtime');
+  const canAdvancedFilter = capabilities.includes('advancedFilters');
+  const canSearchQualifiers = capabilities.includes('searchQualifiers');
+  const canMultiSort = capabilities.includes('multiSort');
+  const role = useAppSelector((state) => state.auth.role);
+  const canDelete = useCan('users:delete');
+  const canImport = useCan('users:import');
+  const canExport = useCan('users:export');
+
+  const authStatus = useAppSelector((state) => state.auth.status);
+  const authEmail = useAppSelector((state) => state.auth.email);
+  const isLoggedIn = authStatus !== 'signedOut';
+  const isSessionExpired = authStatus === 'expired';
 
   const [confirmDialog, setConfirmDialog] = useState<ConfirmDialogState>(defaultConfirmDialog);
   const requestConfirmation = useCallback(
@@ -158,17 +191,14 @@ function App(): JSX.Element {
     []
   );
 
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [route, setRoute] = useState<AppRoute>(() => readRoute(window.location.pathname));
   const [recentUsers, setRecentUsers] = useState<RecentUser[]>([]);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [newUser, setNewUser] = useState<NewUserForm>(defaultNewUser);
   const [submitSuccess, setSubmitSuccess] = useState(false);
-  const [showDeletedPanel, setShowDeletedPanel] = useState(false);
   const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
   const [pendingImportFile, setPendingImportFile] = useState<File | null>(null);
-  const [currentBackend] = useState<string>(() => localStorage.getItem('selectedBackend') || 'node');
-  const fetchUsersRef = useRef<(() => Promise<void>) | null>(null);
+  const [showChangePassword, setShowChangePassword] = useState(false);
   const textFieldKeys: Array<keyof Omit<NewUserForm, 'image' | 'gender'>> = [
     'firstName',
     'lastName',
@@ -179,150 +209,341 @@ function App(): JSX.Element {
   ];
 
   useEffect(() => {
-    localStorage.setItem('selectedBackend', currentBackend);
-  }, [currentBackend]);
+    if (!isLoggedIn) return;
+    let cancelled = false;
+    const fallback = getActiveBackend().capabilities;
+
+    apiClient
+      .getCapabilities()
+      .then((features) => {
+        if (!cancelled) dispatch(setCapabilities(features ?? fallback));
+      })
+      .catch((error) => {
+        console.error('Capability probe failed:', error);
+        if (!cancelled) dispatch(setCapabilities(fallback));
+      });
 
-  const handleFetch = useCallback(
-    async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
-      try {
-        const response = await fetch(input, init);
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch, isLoggedIn]);
 
-        if (response.status === 429) {
-          const data = (await response.json()) as { detail?: { retry_after?: number }; retry_after?: number };
-          const retryAfter = data.detail?.retry_after ?? data.retry_after ?? 60;
-          dispatch(setRateLimitInfo({ retryAfter }));
-          throw new Error('Rate limit exceeded');
-        }
+  // Role and permissions from /auth/me win over what the login response carried.
+  useEffect(() => {
+    if (!isLoggedIn) return;
+    let cancelled = false;
+
+    apiClient
+      .getMe()
+      .then((me) => {
+        const profile = me ? toAuthProfile(me) : null;
+        if (cancelled || !profile) return;
+        saveSessionProfile(profile);
+        dispatch(setAuthProfile(profile));
+      })
+      .catch((error) => {
+        console.error('Could not load the signed-in role:', error);
+      });
 
-        return response;
-      } catch (error) {
-        console.error('Fetch error:', error);
-        throw error;
-      }
-    },
-    [dispatch]
-  );
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch, isLoggedIn]);
 
+  const handleBackendChange = useCallback((id: string) => {
+    switchBackend(id);
+  }, []);
 
+  // Logins, logouts, token refreshes and backend switches in other tabs apply here too.
+  useEffect(() => {
+    const unsubscribe = subscribeSessionEvents((event) => dispatch(receiveSessionEvent(event)));
+    dispatch(requestSessionSync());
+    return unsubscribe;
+  }, [dispatch]);
 
+  useEffect(() => {
+    setApiClientHandlers({
+      onRateLimited: (info) => {
+        dispatch(setRateLimitInfo(info));
+      },
+      // Keep the app mounted so open forms survive; the overlay asks for the password again.
+      onUnauthorized: () => {
+        dispatch(expire());
+      },
+      onForbidden: (error) => {
+        const who = role ? `Your role (${role})` : 'Your account';
+        showNotification(
+          `${who} is not allowed to do that. ${formatApiErrorMessage('Server said', error.parsed)}`,
+          'error'
+        );
+      }
+    });
+    return () => setApiClientHandlers({});
+  }, [dispatch, role, showNotification]);
 
-  const fetchUsers = useCallback(async () => {
-    if (!isLoggedIn) {
-      dispatch(clearUsers());
-      return;
-    }
-    try {
-      dispatch(setIsLoading(true));
-
-      const skip = (currentPage - 1) * USERS_PER_PAGE;
-      const params = new URLSearchParams({
-        skip: String(skip),
-        limit: String(USERS_PER_PAGE),
-        sort_by: sortBy,
-        sort_order: sortOrder
+  const handleLogout = useCallback(async () => {
+    // Signing out clears this device's offline copy, including changes that never reached the server.
+    if (queuedCount > 0) {
+      const confirmed = await requestConfirmation({
+        title: 'Discard Unsynced Changes',
+        message: `${queuedCount} offline change(s) have not been synced yet and will be lost. Sign out anyway?`,
+        type: 'warning',
+        confirmLabel: 'Sign Out'
       });
+      if (!confirmed) return;
+    }
+    dispatch(signOut());
+  }, [dispatch, queuedCount, requestConfirmation]);
 
-      if (searchQuery.trim()) params.append('search', searchQuery.trim());
-      if (genderFilter !== 'all') params.append('gender', genderFilter);
-      if (departmentFilter !== 'all') params.append('department', departmentFilter);
+  const handleSessionExpired = useCallback(() => {
+    dispatch(expire());
+  }, [dispatch]);
 
-      const response = await handleFetch(`${API_BASE}/api/users/?${params.toString()}`, {
-        headers: {
-          ...authHeaders()
-        }
-      });
+  const handleSignedInAgain = useCallback(() => {
+    dispatch(refreshUserLists());
+    showNotification('Signed in again. You can continue where you left off.', 'success');
+  }, [dispatch, showNotification]);
+
+  const facetParams = useMemo<UserFacetParams>(
+    () => ({
+      ...toSearchParams(
+        searchQuery,
+        { genderFilter, departmentFilters, cityFilters },
+        { extended: canSearchQualifiers }
+      ),
+      // A backend that cannot evaluate the filter would ignore it and return unfiltered pages.
+      filter: canAdvancedFilter ? encodeQuery(advancedQuery) : undefined
+    }),
+    [advancedQuery, canAdvancedFilter, canSearchQualifiers, cityFilters, departmentFilters, genderFilter, searchQuery]
+  );
 
-      if (!response.ok) {
-        throw new Error(`Fetch failed: ${response.status}`);
-      }
+  const highlightTerms = useMemo(() => searchTerms(searchQuery), [searchQuery]);
 
-      const data = (await response.json()) as UsersResponse;
-      const normalizedUsers = (data.users ?? []).map(normalizeUser);
+  // A shared link may sort in ways this backend cannot; the header shows what is applied.
+  const appliedSortKeys = useMemo(() => (canMultiSort ? sortKeys : basicSortKeys(sortKeys)), [canMultiSort, sortKeys]);
 
-      dispatch(setUsers(normalizedUsers));
-      dispatch(setTotalUsers(data.total ?? 0));
-    } catch (error) {
-      if ((error as Error).message !== 'Rate limit exceeded') {
-        showNotification('Failed to fetch users', 'error');
-      }
-    } finally {
-      dispatch(setIsLoading(false));
-    }
-  }, [
-    currentPage,
-    departmentFilter,
-    genderFilter,
-    handleFetch,
-    isLoggedIn,
-    searchQuery,
-    showNotification,
-    sortBy,
-    sortOrder,
-    dispatch
-  ]);
+  const listParams = useMemo<UserListParams>(
+    () => ({
+      ...facetParams,
+      skip: (currentPage - 1) * USERS_PER_PAGE,
+      limit: USERS_PER_PAGE,
+      sortKeys: appliedSortKeys
+    }),
+    [appliedSortKeys, currentPage, facetParams]
+  );
+
+  // Skeletons show only until the first page arrives; later fetches dim the cards on screen instead.
+  const {
+    data: latestUsersPage,
+    error: usersError,
+    isLoading: isFirstUsersLoad,
+    isFetching: isFetchingUsers
+  } = useListUsersQuery(listParams, { skip: !isLoggedIn });
+  const { data: departmentList, error: departmentsError } = useListDepartmentsQuery(undefined, {
+    skip: !isLoggedIn
+  });
+  // Facets sent with the page win; otherwise they come from the facets endpoint, if there is one.
+  // The last counts stay up while new ones load, so the filters do not flicker.
+  const { data: facetsResponse } = useListFacetsQuery(facetParams, {
+    skip: !isLoggedIn || !latestUsersPage || Boolean(latestUsersPage.facets)
+  });
+  const facets = latestUsersPage?.facets ?? facetsResponse ?? null;
+  // The last page stays on screen, dimmed, while the next one loads.
+  const users = latestUsersPage?.users ?? NO_USERS;
+  const totalUsers = latestUsersPage?.total ?? 0;
+  const departments = departmentList ?? NO_DEPARTMENTS;
+  const [createUserMutation] = useCreateUserMutation();
+  const [deleteUserMutation] = useDeleteUserMutation();
+  const [bulkDeleteUsersMutation] = useBulkDeleteUsersMutation();
+  const [confirmImportMutation] = useConfirmImportMutation();
 
-  fetchUsersRef.current = fetchUsers;
   useEffect(() => {
-    if (!rateLimitInfo?.retryAfter || !isLoggedIn) {
-      return;
+    if (usersError && !isHandledApiError(usersError)) {
+      showNotification(formatApiErrorMessage('Failed to fetch users', toParsedApiError(usersError)), 'error');
     }
+  }, [showNotification, usersError]);
 
-    const refreshTimer = window.setTimeout(() => {
-      dispatch(setRateLimitInfo(null));
+  useEffect(() => {
+    if (departmentsError) {
+      console.error('fetchDepartments error:', departmentsError);
+    }
+  }, [departmentsError]);
+
+  // A linked user may be on another page or filtered out, so it is fetched on its own.
+  const routeUserId = route.view === 'user' ? route.userId : null;
+  const listedUser = routeUserId ? users.find((user) => user._id === routeUserId) : undefined;
+  const { currentData: linkedUser, error: linkedUserError } = useGetUserQuery(routeUserId ?? '', {
+    skip: !isLoggedIn || !routeUserId || Boolean(listedUser)
+  });
+  const selectedUser = listedUser ?? linkedUser ?? null;
+  const isModalOpen = selectedUser !== null;
+
+  const replaceHistoryRef = useRef(false);
+  const navigate = useCallback((next: AppRoute, { replace = false }: { replace?: boolean } = {}) => {
+    replaceHistoryRef.current = replace;
+    setRoute(next);
+  }, []);
 
-      if (showCreateForm || isModalOpen || bulkMode) {
-        return;
-      }
+  // Picks up the address bar on back/forward and after sign-in, which may have
+  // returned from the identity provider to a deep link.
+  useEffect(() => {
+    if (!isLoggedIn) return;
+    const applyLocation = () => {
+      // Only tidies the URL (e.g. drops an explicit page=1), so it must not add an entry.
+      replaceHistoryRef.current = true;
+      setRoute(readRoute(window.location.pathname));
+      dispatch(applyListView(readListView(window.location.search)));
+    };
+    applyLocation();
+    window.addEventListener('popstate', applyLocation);
+    return () => window.removeEventListener('popstate', applyLocation);
+  }, [dispatch, isLoggedIn]);
+
+  const listView = useMemo<ListView>(
+    () => ({
+      searchQuery,
+      genderFilter,
+      departmentFilters,
+      cityFilters,
+      sortKeys,
+      advancedQuery,
+      currentPage
+    }),
+    [advancedQuery, cityFilters, currentPage, departmentFilters, genderFilter, searchQuery, sortKeys]
+  );
+  const syncedViewRef = useRef({ route, listView });
 
-      fetchUsersRef.current?.();
-    }, rateLimitInfo.retryAfter * 1000);
+  // Writes the screen back to the address bar. Only real changes are written,
+  // so state restored from the URL (or still stale right after sign-in) never adds an entry.
+  useEffect(() => {
+    const previous = syncedViewRef.current;
+    if (previous.route === route && previous.listView === listView) return;
+    syncedViewRef.current = { route, listView };
+    // Typing a search rewrites the current entry instead of leaving one per keystroke.
+    const replace = replaceHistoryRef.current || previous.listView.searchQuery !== listView.searchQuery;
+    replaceHistoryRef.current = false;
+    if (!isLoggedIn) return;
+
+    const target = toLocation(route, listView);
+    if (target === currentLocation()) return;
+    if (replace) window.history.replaceState(null, '', target);
+    else window.history.pushState(null, '', target);
+  }, [isLoggedIn, listView, route]);
+
+  // The default saved view only applies when the link did not spell out its own filters.
+  useEffect(() => {
+    if (!isLoggedIn || !authEmail) return;
+    let cancelled = false;
+    const isLinkedView = hasListView(window.location.search);
+
+    void dispatch(loadSavedViews()).then((views) => {
+      const defaultView = views.find((view) => view.isDefault);
+      if (cancelled || isLinkedView || !defaultView) return;
+      if (viewMatches(defaultView, readListView(window.location.search))) return;
+      replaceHistoryRef.current = true;
+      dispatch(applyListView(toListView(defaultView)));
+    });
 
-    return () => window.clearTimeout(refreshTimer);
-  }, [bulkMode, dispatch, isLoggedIn, isModalOpen, rateLimitInfo, showCreateForm]);
+    return () => {
+      cancelled = true;
+    };
+  }, [authEmail, currentBackend, dispatch, isLoggedIn]);
 
-  const fetchDepartments = useCallback(async () => {
-    if (!isLoggedIn) {
-      dispatch(setDepartments([]));
-      return;
+  useEffect(() => {
+    if (!linkedUserError) return;
+    if (!isHandledApiError(linkedUserError)) {
+      showNotification(formatApiErrorMessage('Could not open this user', toParsedApiError(linkedUserError)), 'error');
     }
-    try {
-      const res = await fetch(`${API_BASE}/api/users/departments?cb=${Date.now()}`, {
-        headers: {
-          ...authHeaders()
-        }
-      });
-
-      if (res.status === 401) {
-        showNotification('Session expired. Please log in again.', 'error');
-        sessionStorage.removeItem('isLoggedIn');
-        sessionStorage.removeItem('token');
-        window.location.reload();
-        return;
-      }
+    navigate({ view: 'list' }, { replace: true });
+  }, [linkedUserError, navigate, showNotification]);
 
-      if (!res.ok) {
-        throw new Error(`Failed to load departments: ${res.status}`);
+  const syncQueuedChanges = useCallback(async () => {
+    try {
+      const report = await replayQueuedMutations();
+      dispatch(setQueuedCount(report.remaining));
+      if (report.replayed > 0 || report.conflicts.length > 0) {
+        dispatch(refreshUserLists());
       }
-
-      const list = (await res.json()) as unknown;
-      if (Array.isArray(list)) {
-        dispatch(setDepartments(list.filter((item): item is string => typeof item === 'string')));
+      if (report.replayed > 0) {
+        showNotification(`Synced ${report.replayed} offline change(s).`, 'success');
       }
+      report.conflicts.forEach((message) => showNotification(message, 'warning', 8000));
     } catch (error) {
-      console.error('fetchDepartments error:', error);
+      console.error('Offline sync error:', error);
     }
-  }, [dispatch, isLoggedIn, showNotification]);
+  }, [dispatch, showNotification]);
+
   useEffect(() => {
-    if (!isLoggedIn) {
-      dispatch(clearUsers());
-      return;
+    if (!isLoggedIn) return;
+
+    void syncQueuedChanges();
+
+    const handleOnline = () => {
+      dispatch(refreshUserLists());
+      void syncQueuedChanges();
+    };
+    const handleOffline = () => {
+      dispatch(setOffline(true));
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [dispatch, isLoggedIn, syncQueuedChanges]);
+
+  useEffect(() => {
+    if (isLoggedIn && !isOffline && queuedCount > 0) {
+      void syncQueuedChanges();
     }
-    fetchUsersRef.current?.();
-  }, [currentPage, departmentFilter, dispatch, genderFilter, isLoggedIn, searchQuery, sortBy, sortOrder]);
+  }, [isLoggedIn, isOffline, queuedCount, syncQueuedChanges]);
 
   useEffect(() => {
-    dispatch(setCurrentPage(1));
-  }, [departmentFilter, dispatch, genderFilter, searchQuery, sortBy, sortOrder]);
+    if (!isLoggedIn || !canRealtime) return;
+
+    const ownEmail = getSessionEmail();
+    const badgeTimers = new Map<string, number>();
+
+    const disconnect = connectDirectoryEvents({
+      onEvent: (event) => {
+        // Our own changes are already on screen.
+        if (event.actor && event.actor === ownEmail) return;
+
+        switch (event.type) {
+          case 'user-created':
+          case 'user-restored':
+            // Whether and where the user shows depends on the filters, sort and page, so the server decides.
+            dispatch(refreshUserLists());
+            break;
+          case 'user-updated':
+            if (event.user) dispatch(replaceListedUser(event.user));
+            // A user opened from a link is not on the list; its own query must refetch.
+            dispatch(usersApi.util.invalidateTags([{ type: 'User', id: event.userId }]));
+            break;
+          case 'user-deleted':
+            dispatch(removeListedUsers([event.userId]));
+            return;
+        }
+
+        dispatch(markRemoteChange({ userId: event.userId, actor: event.actor ?? 'another admin' }));
+        window.clearTimeout(badgeTimers.get(event.userId));
+        badgeTimers.set(
+          event.userId,
+          window.setTimeout(() => {
+            badgeTimers.delete(event.userId);
+            dispatch(clearRemoteChange(event.userId));
+          }, REMOTE_CHANGE_BADGE_MS)
+        );
+      }
+    });
+
+    return () => {
+      disconnect();
+      badgeTimers.forEach((timer) => window.clearTimeout(timer));
+    };
+  }, [canRealtime, dispatch, isLoggedIn]);
 
   useEffect(() => {
     window.scrollTo({
@@ -331,10 +552,6 @@ function App(): JSX.Element {
     });
   }, [currentPage]);
 
-  useEffect(() => {
-    void fetchDepartments();
-  }, [fetchDepartments]);
-
   const getRecentViewedKey = useCallback(() => `recentviewedusers_${currentBackend}_v1`, [currentBackend]);
 
   const loadRecentViewed = useCallback(() => {
@@ -349,19 +566,20 @@ function App(): JSX.Element {
   }, [getRecentViewedKey]);
 
   useEffect(() => {
-    loadRecentViewed();
-  }, [loadRecentViewed]);
+    if (isLoggedIn) loadRecentViewed();
+  }, [isLoggedIn, loadRecentViewed]);
 
+  // Nothing from the previous session may show up if someone else signs in on this tab.
   useEffect(() => {
-    if (!deptSelectRef.current) return;
-    if (!departmentFilter || departmentFilter === 'all') return;
-
-    const sel = deptSelectRef.current;
-    const opt = sel.querySelector(`option[value="${departmentFilter}"]`);
-    if (opt && typeof (opt as HTMLOptionElement).scrollIntoView === 'function') {
-      (opt as HTMLOptionElement).scrollIntoView({ block: 'nearest' });
-    }
-  }, [departments, departmentFilter]);
+    if (isLoggedIn) return;
+    setRecentUsers([]);
+    setShowCreateForm(false);
+    setNewUser(defaultNewUser);
+    setSubmitSuccess(false);
+    setImportPreview(null);
+    setPendingImportFile(null);
+    setShowChangePassword(false);
+  }, [isLoggedIn]);
 
   const trackRecentlyViewed = useCallback(
     (user: User | RecentUser | null) => {
@@ -391,9 +609,8 @@ function App(): JSX.Element {
   );
 
   const closeModal = useCallback(() => {
-    setIsModalOpen(false);
-    setSelectedUser(null);
-  }, []);
+    navigate({ view: 'list' });
+  }, [navigate]);
 
   const deleteUser = useCallback(
     async (userId: string | User | null) => {
@@ -418,20 +635,14 @@ function App(): JSX.Element {
       });
       if (!confirmed) return;
 
-      try {
-        const res = await fetch(`${API_BASE}/api/users/${id}`, {
-          method: 'DELETE',
-          headers: {
-            ...authHeaders()
-          }
-        });
-
-        if (!res.ok) {
-          const msg = await res.text();
-          throw new Error(`Delete failed: ${res.status} ${msg}`);
-        }
+      const removed = users.filter((user) => user._id === id);
+      const undoRemove = dispatch(removeListedUsers([id]));
+      if (selectedUser && selectedUser._id === id) {
+        closeModal();
+      }
 
-        dispatch(removeUser(id));
+      try {
+        await deleteUserMutation(id).unwrap();
 
         setRecentUsers((prev) => {
           const key = getRecentViewedKey();
@@ -439,25 +650,32 @@ function App(): JSX.Element {
           localStorage.setItem(key, JSON.stringify(next));
           return next;
         });
-
-        if (selectedUser && selectedUser._id === id) {
-          closeModal();
-        }
       } catch (error) {
         console.error('Error deleting user:', error);
-        showNotification(`Failed to delete user: ${(error as Error).message}`, 'error');
+        undoRemove();
+        showNotification(
+          `${formatApiErrorMessage('Failed to delete user', toParsedApiError(error))}. ${describeUsers(removed)} was restored.`,
+          'error'
+        );
       }
     },
-    [closeModal, dispatch, getRecentViewedKey, requestConfirmation, selectedUser, showNotification]
+    [
+      closeModal,
+      deleteUserMutation,
+      dispatch,
+      getRecentViewedKey,
+      requestConfirmation,
+      selectedUser,
+      showNotification,
+      users
+    ]
   );
 
   const handleUserUpdated = useCallback(
-    async (updatedUser: Record<string, unknown>) => {
-      const id = updatedUser._id ?? updatedUser.id;
-      if (!id) return;
-      const normalized = normalizeUser(updatedUser);
+    (normalized: User) => {
+      if (!normalized._id) return;
 
-      dispatch(updateUser(normalized));
+      dispatch(replaceListedUser(normalized));
       setRecentUsers((prev) => {
         const key = getRecentViewedKey();
         const next = prev.map((user) => (user.id === normalized._id ? { ...user, ...normalized } : user));
@@ -466,9 +684,21 @@ function App(): JSX.Element {
       });
 
       closeModal();
-      await fetchDepartments();
     },
-    [dispatch, fetchDepartments, getRecentViewedKey, closeModal]
+    [dispatch, getRecentViewedKey, closeModal]
+  );
+
+  const handleUserUpdateReverted = useCallback(
+    (original: User) => {
+      dispatch(replaceListedUser(original));
+      setRecentUsers((prev) => {
+        const key = getRecentViewedKey();
+        const next = prev.map((user) => (user.id === original._id ? { ...user, ...original } : user));
+        localStorage.setItem(key, JSON.stringify(next));
+        return next;
+      });
+    },
+    [dispatch, getRecentViewedKey]
   );
 
   const clearRecentViewed = useCallback(() => {
@@ -480,22 +710,18 @@ function App(): JSX.Element {
   const handleRecentUserClick = useCallback(
     (user: RecentUser) => {
       trackRecentlyViewed(user);
-      const fullUser = users.find((candidate) => candidate._id === user.id || candidate._id === user._id);
-      if (fullUser) {
-        setSelectedUser(fullUser);
-        setIsModalOpen(true);
-      }
+      const userId = user._id ?? user.id;
+      if (userId) navigate({ view: 'user', userId });
     },
-    [trackRecentlyViewed, users]
+    [navigate, trackRecentlyViewed]
   );
 
   const handleUserClick = useCallback(
     (user: User) => {
       trackRecentlyViewed(user);
-      setSelectedUser(user);
-      setIsModalOpen(true);
+      navigate({ view: 'user', userId: user._id });
     },
-    [trackRecentlyViewed]
+    [navigate, trackRecentlyViewed]
   );
   const handleCreateSubmit = useCallback(
     async (event: FormEvent<HTMLFormElement>) => {
@@ -515,51 +741,27 @@ function App(): JSX.Element {
       }
 
       try {
-        const formData = new FormData();
-        formData.append('firstName', newUser.firstName || '');
-        formData.append('lastName', newUser.lastName || '');
-        formData.append('email', newUser.email || '');
-        formData.append('phone', newUser.phone || '');
-        formData.append('gender', newUser.gender || '');
-        formData.append('city', newUser.city || '');
-        formData.append('department', newUser.department || '');
-        if (newUser.image) {
-          formData.append('image', newUser.image);
+        const createdNormalized = await createUserMutation(newUser).unwrap();
+
+        // The list refetches with the new user wherever the server places it. One created
+        // offline only exists in the queue, so until then it goes first on the page on screen.
+        if (isProvisionalId(createdNormalized._id)) {
+          dispatch(
+            usersApi.util.updateQueryData('listUsers', listParams, (page) => {
+              page.users.unshift(createdNormalized);
+            })
+          );
         }
-
-        const res = await fetch(`${API_BASE}/api/users/`, {
-          method: 'POST',
-          headers: {
-            ...authHeaders()
-          },
-          body: formData
-        });
-
-        if (!res.ok) {
-          const errorData = await res.json();
-          const errorMessage = errorData.detail || 'Unknown error';
-          throw new Error(errorMessage);
-        }
-
-        const created = (await res.json()) as Record<string, unknown>;
-        const createdNormalized = normalizeUser(created);
-
-        dispatch(addUserToFront(createdNormalized));
         setSubmitSuccess(true);
         setNewUser(defaultNewUser);
-
-        if (
-          createdNormalized.department &&
-          !departments.includes(createdNormalized.department)
-        ) {
-          await fetchDepartments();
-        }
       } catch (error) {
         console.error('Error creating user:', error);
-        showNotification(`Failed to create user: ${(error as Error).message}`, 'error');
+        if (!isHandledApiError(error)) {
+          showNotification(formatApiErrorMessage('Failed to create user', toParsedApiError(error)), 'error');
+        }
       }
     },
-    [departments, dispatch, fetchDepartments, newUser, showNotification]
+    [createUserMutation, dispatch, listParams, newUser, showNotification]
   );
 
   const resetFilters = useCallback(() => {
@@ -580,23 +782,30 @@ function App(): JSX.Element {
     [dispatch]
   );
 
-  const handleDepartmentFilterChange = useCallback(
-    (value: string) => {
-      dispatch(setDepartmentFilter(value));
+  const handleApplySearch = useCallback(
+    (lifted: LiftedSearch) => {
+      dispatch(applySearch(lifted));
+    },
+    [dispatch]
+  );
+
+  const handleDepartmentFiltersChange = useCallback(
+    (values: string[]) => {
+      dispatch(setDepartmentFilters(values));
     },
     [dispatch]
   );
 
-  const handleSortByChange = useCallback(
-    (value: 'firstName' | 'lastName' | 'department' | 'city') => {
-      dispatch(setSortBy(value));
+  const handleCityFiltersChange = useCallback(
+    (values: string[]) => {
+      dispatch(setCityFilters(values));
     },
     [dispatch]
   );
 
-  const handleSortOrderChange = useCallback(
-    (value: 'asc' | 'desc') => {
-      dispatch(setSortOrder(value));
+  const handleSortKeysChange = useCallback(
+    (value: SortKey[]) => {
+      dispatch(setSortKeys(value));
     },
     [dispatch]
   );
@@ -643,28 +852,14 @@ function App(): JSX.Element {
       if (!file) return;
 
       try {
-        const formData = new FormData();
-        formData.append('file', file);
-
-        const response = await fetch(`${API_BASE}/api/users/import/preview`, {
-          method: 'POST',
-          headers: {
-            ...authHeaders()
-          },
-          body: formData
-        });
-
-        if (response.ok) {
-          const previewData = (await response.json()) as ImportPreview;
-          setImportPreview(previewData);
-          setPendingImportFile(file);
-        } else {
-          const error = await response.json();
-          showNotification(`Failed to read file: ${error.detail ?? 'Unknown error'}`, 'error');
-        }
+        const previewData = await apiClient.previewImport(file);
+        setImportPreview(previewData);
+        setPendingImportFile(file);
       } catch (error) {
         console.error('Import preview error:', error);
-        showNotification('Failed to read file. Please try again.', 'error');
+        if (!isHandledApiError(error)) {
+          showNotification(formatApiErrorMessage('Failed to read file', toParsedApiError(error)), 'error');
+        }
       }
     };
 
@@ -675,42 +870,21 @@ function App(): JSX.Element {
     if (!pendingImportFile) return;
 
     try {
-      const formData = new FormData();
-      formData.append('file', pendingImportFile);
-
-      const response = await fetch(`${API_BASE}/api/users/import/confirm`, {
-        method: 'POST',
-        headers: {
-          ...authHeaders()
-        },
-        body: formData
-      });
-
-      if (response.ok) {
-        const result = (await response.json()) as { imported?: number };
-        if (typeof result?.imported === 'number') {
-          showNotification(`Successfully imported ${result.imported} users!`, 'success');
-        } else {
-          showNotification('Import completed but response format was unexpected.', 'warning');
-        }
-        setImportPreview(null);
-        setPendingImportFile(null);
-        await fetchUsers();
-        await fetchDepartments();
+      const result = await confirmImportMutation(pendingImportFile).unwrap();
+      if (typeof result?.imported === 'number') {
+        showNotification(`Successfully imported ${result.imported} users!`, 'success');
       } else {
-        const errorText = await response.text();
-        try {
-          const errorJson = JSON.parse(errorText) as { detail?: string };
-          showNotification(`Import failed: ${errorJson.detail ?? 'Unknown error'}`, 'error');
-        } catch {
-          showNotification(`Import failed: ${errorText}`, 'error');
-        }
+        showNotification('Import completed but response format was unexpected.', 'warning');
       }
+      setImportPreview(null);
+      setPendingImportFile(null);
     } catch (error) {
       console.error('Import error:', error);
-      showNotification('Import failed. Please try again.', 'error');
+      if (!isHandledApiError(error)) {
+        showNotification(formatApiErrorMessage('Import failed', toParsedApiError(error)), 'error');
+      }
     }
-  }, [fetchDepartments, fetchUsers, pendingImportFile, showNotification]);
+  }, [confirmImportMutation, pendingImportFile, showNotification]);
 
   const handleRejectImport = useCallback(() => {
     setImportPreview(null);
@@ -720,42 +894,23 @@ function App(): JSX.Element {
 
   const handleUserExport = useCallback(async () => {
     try {
-      const params = new URLSearchParams();
-      if (searchQuery.trim()) params.append('search', searchQuery.trim());
-      if (genderFilter !== 'all') params.append('gender', genderFilter);
-      if (departmentFilter !== 'all') params.append('department', departmentFilter);
-      const skip = (currentPage - 1) * USERS_PER_PAGE;
-      params.append('skip', String(skip));
-      params.append('limit', String(USERS_PER_PAGE));
-      params.append('sort_by', sortBy);
-      params.append('sort_order', sortOrder);
-
-      const response = await fetch(`${API_BASE}/api/users/export?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          ...authHeaders()
-        }
-      });
-
-      if (response.ok) {
-        const blob = await response.blob();
-        const url = window.URL.createObjectURL(blob);
-        const anchor = document.createElement('a');
-        anchor.href = url;
-        anchor.download = `users_export_${new Date().toISOString().split('T')[0]}.csv`;
-        document.body.appendChild(anchor);
-        anchor.click();
-        window.URL.revokeObjectURL(url);
-        document.body.removeChild(anchor);
-        showNotification('Users exported successfully!', 'success');
-      } else {
-        showNotification('Export failed. Please try again.', 'error');
-      }
+      const blob = await apiClient.exportUsers(listParams);
+      const url = window.URL.createObjectURL(blob);
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = `users_export_${new Date().toISOString().split('T')[0]}.csv`;
+      document.body.appendChild(anchor);
+      anchor.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(anchor);
+      showNotification('Users exported successfully!', 'success');
     } catch (error) {
       console.error('Export error:', error);
-      showNotification('Export failed. Please try again.', 'error');
+      if (!isHandledApiError(error)) {
+        showNotification(formatApiErrorMessage('Export failed', toParsedApiError(error)), 'error');
+      }
     }
-  }, [currentPage, departmentFilter, genderFilter, searchQuery, showNotification, sortBy, sortOrder]);
+  }, [listParams, showNotification]);
 
   const bulkDeleteUsers = useCallback(async () => {
     if (selectedUsers.length === 0) {
@@ -771,29 +926,25 @@ function App(): JSX.Element {
     });
     if (!confirmed) return;
 
-    try {
-      const res = await fetch(`${API_BASE}/api/users/bulk-delete`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...authHeaders()
-        },
-        body: JSON.stringify({ ids: selectedUsers })
-      });
+    const ids = [...selectedUsers];
+    const removed = users.filter((user) => ids.includes(user._id));
+    const undoRemove = dispatch(removeListedUsers(ids));
+    dispatch(clearSelectedUsers());
+    dispatch(setBulkMode(false));
 
-      if (!res.ok) {
-        throw new Error('Bulk delete failed');
-      }
+    try {
+      await bulkDeleteUsersMutation(ids).unwrap();
 
-      showNotification(`${selectedUsers.length} user(s) deleted successfully!`, 'success');
-      dispatch(clearSelectedUsers());
-      dispatch(setBulkMode(false));
-      await fetchUsers();
+      showNotification(`${ids.length} user(s) deleted successfully!`, 'success');
     } catch (error) {
       console.error('Bulk delete error:', error);
-      showNotification('Failed to bulk delete users', 'error');
+      undoRemove();
+      showNotification(
+        `${formatApiErrorMessage('Failed to bulk delete users', toParsedApiError(error))}. ${describeUsers(removed)} restored.`,
+        'error'
+      );
     }
-  }, [dispatch, fetchUsers, requestConfirmation, selectedUsers, showNotification]);
+  }, [bulkDeleteUsersMutation, dispatch, requestConfirmation, selectedUsers, showNotification, users]);
 
   const toggleUserSelection = useCallback(
     (userId: string) => {
@@ -824,78 +975,101 @@ function App(): JSX.Element {
   return (
     <>
       <div className="app">
-        {isLoading && (
+        {isFetchingUsers && (
           <div className="loading-overlay">
             <div className="loading-spinner" />
           </div>
         )}
 
+        <OfflineBanner isOffline={isOffline} queuedCount={queuedCount} cachedAt={cachedAt} />
+
         <Header
           searchQuery={searchQuery}
           setSearchQuery={handleSearchQueryChange}
+          onApplySearch={handleApplySearch}
           genderFilter={genderFilter}
           setGenderFilter={handleGenderFilterChange}
-          departmentFilter={departmentFilter}
-          setDepartmentFilter={handleDepartmentFilterChange}
+          departmentFilters={departmentFilters}
+          setDepartmentFilters={handleDepartmentFiltersChange}
+          cityFilters={cityFilters}
+          setCityFilters={handleCityFiltersChange}
           departments={departments}
-          deptSelectRef={deptSelectRef}
-          sortBy={sortBy}
-          setSortBy={handleSortByChange}
-          sortOrder={sortOrder}
-          setSortOrder={handleSortOrderChange}
+          facets={facets}
+          sortKeys={appliedSortKeys}
+          setSortKeys={handleSortKeysChange}
+          backends={BACKEND_PROFILES}
+          currentBackend={currentBackend}
+          onBackendChange={handleBackendChange}
         />
 
+        <FilterChips />
+
         <div className="action-buttons-container">
-          <button
-            className="action-btn create-btn"
-            onClick={() => {
-              setShowCreateForm(true);
-              setSubmitSuccess(false);
-            }}
-            disabled={showCreateForm}
-            type="button"
-          >
-            Create New User
-          </button>
+          <PermissionGate permission="users:create">
+            <button
+              className="action-btn create-btn"
+              onClick={() => {
+                setShowCreateForm(true);
+                setSubmitSuccess(false);
+              }}
+              disabled={showCreateForm}
+              type="button"
+            >
+              Create New User
+            </button>
+          </PermissionGate>
 
-          <button
-            className={`action-btn bulk-select-btn ${bulkMode ? 'active' : ''}`}
-            onClick={() => {
-              dispatch(setBulkMode(!bulkMode));
-              dispatch(clearSelectedUsers());
-            }}
-            type="button"
-          >
-            {bulkMode ? 'Exit Bulk Mode' : 'Bulk Select'}
-          </button>
+          {capabilities.includes('bulkDelete') && canDelete && (
+            <button
+              className={`action-btn bulk-select-btn ${bulkMode ? 'active' : ''}`}
+              onClick={() => {
+                dispatch(setBulkMode(!bulkMode));
+                dispatch(clearSelectedUsers());
+              }}
+              disabled={isOffline}
+              type="button"
+            >
+              {bulkMode ? 'Exit Bulk Mode' : 'Bulk Select'}
+            </button>
+          )}
 
           <button
             className="action-btn deleted-btn"
-            onClick={() => setShowDeletedPanel(true)}
+            onClick={() => navigate({ view: 'deleted' })}
+            disabled={isOffline}
             type="button"
           >
             Deleted Users
           </button>
 
-          <button className="action-btn import-btn" onClick={handleBulkImport} type="button">
-            Bulk Import
-          </button>
+          {capabilities.includes('importPreview') && canImport && (
+            <button
+              className="action-btn import-btn"
+              onClick={handleBulkImport}
+              disabled={isOffline}
+              type="button"
+            >
+              Bulk Import
+            </button>
+          )}
 
-          <button className="action-btn export-btn" onClick={handleUserExport} type="button">
-            User Export
-          </button>
+          {capabilities.includes('export') && canExport && (
+            <button
+              className="action-btn export-btn"
+              onClick={handleUserExport}
+              disabled={isOffline}
+              type="button"
+            >
+              User Export
+            </button>
+          )}
 
-          <button
-            className="action-btn logout-btn"
-            onClick={() => {
-              sessionStorage.removeItem('isLoggedIn');
-              sessionStorage.removeItem('token');
-              window.location.reload();
-            }}
-            type="button"
-          >
-            Logout
-          </button>
+          <AccountMenu
+            email={authEmail}
+            role={role}
+            onChangePassword={() => setShowChangePassword(true)}
+            onSignOut={handleLogout}
+          />
         </div>
 
         {bulkMode && (
@@ -932,8 +1106,8 @@ function App(): JSX.Element {
           </div>
         )}
 
-        <main className="user-container">
-          {isLoading ? (
+        <main className={isFetchingUsers ? 'user-container loading' : 'user-container'}>
+          {isFirstUsersLoad ? (
             Array.from({ length: 12 }).map((_, index) => <SkeletonCard key={index} />)
           ) : sortedUsers.length === 0 ? (
             <div className="no-results">
@@ -950,6 +1124,8 @@ function App(): JSX.Element {
                 isSelected={selectedUsers.includes(user._id)}
                 onSelect={toggleUserSelection}
                 showCheckbox={bulkMode}
+                changedBy={remoteChanges[user._id]}
+                highlightTerms={highlightTerms}
                 style={{
                   animation: `fadeInUp 0.4s ease-out ${index * 0.05}s both`
                 }}
@@ -988,9 +1164,23 @@ function App(): JSX.Element {
           </div>
         )}
 
+        <ContractReport />
+
+        {showChangePassword && (
+          <ChangePasswordDialog email={authEmail} onClose={() => setShowChangePassword(false)} />
+        )}
+
+        {isSessionExpired ? (
+          <ReloginOverlay onSignedIn={handleSignedInAgain} onSignOut={handleLogout} />
+        ) : (
+          <SessionExpiryDialog onExpired={handleSessionExpired} onSignOut={handleLogout} />
+        )}
+
         {rateLimitInfo && (
           <RateLimitToast
             retryAfter={rateLimitInfo.retryAfter}
+            resumeAt={rateLimitInfo.resumeAt}
+            pendingCount={rateLimitInfo.pendingCount}
             onClose={() => dispatch(setRateLimitInfo(null))}
           />
         )}
@@ -1006,13 +1196,8 @@ function App(): JSX.Element {
         />
 
         <DeletedPanel
-          isOpen={showDeletedPanel}
-          onClose={() => setShowDeletedPanel(false)}
-          authHeaders={authHeaders}
-          onRestoreComplete={() => {
-            fetchUsersRef.current?.();
-            void fetchDepartments();
-          }}
+          isOpen={route.view === 'deleted'}
+          onClose={() => navigate({ view: 'list' })}
         />
 
         <RecentlyViewed
@@ -1020,6 +1205,7 @@ function App(): JSX.Element {
           onUserClick={handleRecentUserClick}
           onClear={clearRecentViewed}
           isCreateFormOpen={showCreateForm}
+          highlightTerms={highlightTerms}
         />
 
         <UserModal
@@ -1028,6 +1214,8 @@ function App(): JSX.Element {
           onClose={closeModal}
           onDelete={deleteUser}
           onUpdate={handleUserUpdated}
+          onUpdateReverted={handleUserUpdateReverted}
+          highlightTerms={highlightTerms}
         />
 
         <ConfirmDialog
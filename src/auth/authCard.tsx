@@ -0,0 +1,57 @@
+import type { JSX, ReactNode } from 'react';
+import Box from '@mui/material/Box';
+import Container from '@mui/material/Container';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import { alpha, useTheme } from '@mui/material/styles';
+
+interface AuthCardProps {
+  title: string;
+  subtitle?: ReactNode;
+  children: ReactNode;
+}
+
+// Same frame as Toolpad's SignInPage, so follow-up steps look like part of the sign-in.
+function AuthCard({ title, subtitle, children }: AuthCardProps): JSX.Element {
+  const theme = useTheme();
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'center',
+        alignItems: 'center',
+        bgcolor: 'background.default'
+      }}
+    >
+      <Container component="main" maxWidth="xs">
+        <Stack
+          sx={{
+            alignItems: 'center',
+            bgcolor: 'background.paper',
+            borderRadius: 1,
+            p: 4,
+            gap: 1,
+            border: '1px solid',
+            borderColor: alpha(theme.palette.grey[400], 0.4),
+            boxShadow: theme.shadows[4]
+          }}
+        >
+          <Typography variant="h5" component="h1" color="textPrimary" sx={{ textAlign: 'center', fontWeight: 600 }}>
+            {title}
+          </Typography>
+          {subtitle && (
+            <Typography variant="body2" color="textSecondary" gutterBottom textAlign="center">
+              {subtitle}
+            </Typography>
+          )}
+          <Box sx={{ width: '100%' }}>{children}</Box>
+        </Stack>
+      </Container>
+    </Box>
+  );
+}
+
+export default AuthCard;
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import type { FormEvent, JSX } from 'react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Link from '@mui/material/Link';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import AuthCard from './authCard';
+import { formatApiErrorSummary, type ParsedApiError } from '../utils/api';
+import { apiClient, toParsedApiError } from '../utils/apiClient';
+
+interface ForgotPasswordProps {
+  onBack: () => void;
+}
+
+function ForgotPassword({ onBack }: ForgotPasswordProps): JSX.Element {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<ParsedApiError | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await apiClient.requestPasswordReset(email.trim());
+      setSentTo(email.trim());
+    } catch (requestError) {
+      setError(toParsedApiError(requestError));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <AuthCard title="Check your email">
+        <Stack spacing={2}>
+          <Alert severity="success">
+            If an account exists for {sentTo}, we sent a link to reset its password. The link expires in 30
+            minutes.
+          </Alert>
+          <Button variant="outlined" color="inherit" fullWidth onClick={onBack}>
+            Back to sign in
+          </Button>
+        </Stack>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Forgot your password?" subtitle="Enter your Admin ID and we will email you a reset link.">
+      <Box component="form" onSubmit={handleSubmit} noValidate>
+        <Stack spacing={2}>
+          {error && <Alert severity="error">{formatApiErrorSummary(error, ['email'])}</Alert>}
+          <TextField
+            label="Admin ID"
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            error={Boolean(error?.fieldErrors?.email)}
+            helperText={error?.fieldErrors?.email}
+            autoComplete="username"
+            autoFocus
+            fullWidth
+            required
+            size="small"
+          />
+          <Button type="submit" variant="contained" fullWidth disabled={!email.trim() || isSubmitting}>
+            {isSubmitting ? 'Sending...' : 'Send reset link'}
+          </Button>
+          <Link component="button" type="button" variant="body2" onClick={onBack} sx={{ alignSelf: 'flex-start' }}>
+            Back to sign in
+          </Link>
+        </Stack>
+      </Box>
+    </AuthCard>
+  );
+}
+
+export default ForgotPassword;
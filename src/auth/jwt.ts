@@ -0,0 +1,25 @@
+export interface TokenClaims {
+  sub?: string;
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+// Reads the payload of a JWT without verifying it; the server stays the authority.
+export function decodeTokenClaims(token: string | null): TokenClaims | null {
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const claims: unknown = JSON.parse(atob(padded));
+    return claims && typeof claims === 'object' ? (claims as TokenClaims) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Epoch milliseconds when the token stops being accepted, or null when it does not say.
+export function getTokenExpiry(token: string | null): number | null {
+  const exp = decodeTokenClaims(token)?.exp;
+  return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null;
+}
@@ -1,4 +1,4 @@
-import { useCallback } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { AppProvider } from '@toolpad/core/AppProvider';
 import {
   SignInPage,
@@ -6,84 +6,213 @@ import {
   type AuthResponse,
   type SignInPageProps
 } from '@toolpad/core/SignInPage';
-import { ThemeProvider, createTheme } from '@mui/material/styles';
+import { ThemeProvider } from '@mui/material/styles';
+import CircularProgress from '@mui/material/CircularProgress';
+import Checkbox from '@mui/material/Checkbox';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Link, { type LinkProps } from '@mui/material/Link';
+import MenuItem from '@mui/material/MenuItem';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
 import { useNotification } from '../components/NotificationContext';
-import { API_BASE } from '../components/config';
 import type { JSX } from 'react';
+import { formatApiErrorMessage } from '../utils/api';
+import { apiClient, toParsedApiError } from '../utils/apiClient';
+import { BACKEND_PROFILES, getActiveBackend } from '../components/config';
+import { useAppDispatch } from '../store/hooks';
+import { signIn as signInSession } from '../store/authSlice';
+import type { LoginResponse, MfaChallenge } from '../types';
+import AuthCard from './authCard';
+import ForgotPassword from './forgotPassword';
+import { toMfaChallenge } from './mfa';
+import { completeOidcSignIn, isOidcCallback, startOidcSignIn } from './oidc';
+import ResetPassword from './resetPassword';
+import { switchBackend } from './sessionBus';
+import { signInTheme } from './theme';
+import TwoFactor from './twoFactor';
 
-const providers: AuthProvider[] = [{ id: 'credentials', name: 'Email and Password' }];
+const CREDENTIALS_PROVIDER: AuthProvider = { id: 'credentials', name: 'Email and Password' };
+const OIDC_PROVIDER_ID = 'oidc';
+const RESET_TOKEN_PARAM = 'reset_token';
+
+type Screen = 'signIn' | 'forgotPassword' | 'resetPassword';
+
+function readResetToken(): string | null {
+  return new URLSearchParams(window.location.search).get(RESET_TOKEN_PARAM);
+}
+
+// The token is single use; once handled it should not stay in the address bar.
+function clearResetToken(): void {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(RESET_TOKEN_PARAM);
+  window.history.replaceState(null, '', url.toString());
+}
+
+function BackendSubtitle(): JSX.Element {
+  return (
+    <TextField
+      select
+      size="small"
+      fullWidth
+      label="Backend"
+      value={getActiveBackend().id}
+      onChange={(event) => switchBackend(event.target.value)}
+      sx={{ mt: 1 }}
+    >
+      {BACKEND_PROFILES.map((profile) => (
+        <MenuItem key={profile.id} value={profile.id}>
+          {profile.label}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+}
+
+// Submitted with the credentials form as `remember=true` when ticked.
+function RememberMe(): JSX.Element {
+  return (
+    <FormControlLabel
+      control={<Checkbox name="remember" value="true" color="primary" size="small" />}
+      label="Remember me on this device"
+      slotProps={{ typography: { variant: 'body2' } }}
+    />
+  );
+}
+
+function ForgotPasswordLink(props: LinkProps): JSX.Element {
+  return (
+    <Link component="button" type="button" variant="body2" {...props}>
+      Forgot password?
+    </Link>
+  );
+}
 
 function Login(): JSX.Element {
   const { showNotification } = useNotification();
-  const theme = createTheme({
-    palette: {
-      mode: 'light',
-      primary: { main: '#1e40af' },
-      background: { default: '#f8fafc' }
-    }
-  });
+  const dispatch = useAppDispatch();
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [remember, setRemember] = useState(false);
+  const [resetToken] = useState(readResetToken);
+  const [screen, setScreen] = useState<Screen>(() => (resetToken ? 'resetPassword' : 'signIn'));
+  const [isCompletingSso, setIsCompletingSso] = useState(isOidcCallback);
+  const oidc = getActiveBackend().oidc;
+  const providers: AuthProvider[] = oidc
+    ? [{ id: OIDC_PROVIDER_ID, name: oidc.label }, CREDENTIALS_PROVIDER]
+    : [CREDENTIALS_PROVIDER];
+
+  useEffect(() => {
+    if (!isCompletingSso) return;
+    let cancelled = false;
+
+    completeOidcSignIn()
+      .then(({ email, issuer, data }) => {
+        if (!cancelled) dispatch(signInSession(email, data, { issuer }));
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Single sign-on failed:', error);
+        showNotification(formatApiErrorMessage('Single sign-on failed', toParsedApiError(error)), 'error');
+        setIsCompletingSso(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dispatch, isCompletingSso, showNotification]);
 
   const signIn = useCallback<NonNullable<SignInPageProps['signIn']>>(
-    async (_provider, formData): Promise<AuthResponse> => {
+    async (provider, formData): Promise<AuthResponse> => {
+      if (provider.id === OIDC_PROVIDER_ID && oidc) {
+        try {
+          await startOidcSignIn(oidc);
+          return {};
+        } catch (error) {
+          console.error('Could not reach the identity provider:', error);
+          return { error: formatApiErrorMessage('', toParsedApiError(error)) };
+        }
+      }
+
       const safeFormData = formData instanceof FormData ? formData : new FormData();
       const emailEntry = safeFormData.get('email');
       const passwordEntry = safeFormData.get('password');
       const email = typeof emailEntry === 'string' ? emailEntry.trim() : '';
       const password = typeof passwordEntry === 'string' ? passwordEntry.trim() : '';
+      const rememberDevice = safeFormData.get('remember') === 'true';
 
       try {
-        const bodyData = new URLSearchParams();
-        bodyData.append('email', email);
-        bodyData.append('password', password);
-
-        const res = await fetch(`${API_BASE}/auth/login`, {
-          method: 'POST',
-          headers: {
-            Accept: 'application/json',
-            'Content-Type': 'application/x-www-form-urlencoded'
-          },
-          body: bodyData
-        });
-
-        if (!res.ok) {
-          const msg = await res.text();
-          throw new Error(msg || `HTTP ${res.status}`);
-        }
+        const data = await apiClient.login(email, password);
 
-        const data = (await res.json()) as { access_token?: string };
+        const challenge = toMfaChallenge(email, data);
+        if (challenge) {
+          setRemember(rememberDevice);
+          setMfaChallenge(challenge);
+          return {};
+        }
 
-        if (!data.access_token) {
+        if (!data.access_token && getActiveBackend().authStyle === 'bearer') {
           throw new Error('No token received from server');
         }
 
-        sessionStorage.setItem('isLoggedIn', 'true');
-        sessionStorage.setItem('token', data.access_token);
-        localStorage.setItem('email', email);
-
-        window.location.reload();
+        dispatch(signInSession(email, data, { remember: rememberDevice }));
 
         return { success: 'Signed in successfully.' };
       } catch (error) {
         console.error('Login failed:', error);
-        const message = error instanceof Error ? error.message : 'Unknown error';
+        const message = formatApiErrorMessage('', toParsedApiError(error));
         showNotification(`Invalid credentials or server error\n${message}`, 'error');
         return { error: message };
       }
     },
-    [showNotification]
+    [dispatch, oidc, showNotification]
+  );
+
+  const leaveReset = useCallback((next: Screen) => {
+    clearResetToken();
+    setScreen(next);
+  }, []);
+
+  const handleMfaVerified = useCallback(
+    (data: LoginResponse) => {
+      if (mfaChallenge) dispatch(signInSession(mfaChallenge.email, data, { remember }));
+    },
+    [dispatch, mfaChallenge, remember]
   );
 
   return (
-    <ThemeProvider theme={theme}>
-      <AppProvider theme={theme}>
-        <SignInPage
-          signIn={signIn}
-          providers={providers}
-          slotProps={{
-            emailField: { label: 'Admin ID', autoFocus: true },
-            passwordField: { label: 'Password' }
-          }}
-        />
+    <ThemeProvider theme={signInTheme}>
+      <AppProvider theme={signInTheme}>
+        {isCompletingSso ? (
+          <AuthCard title="Signing you in" subtitle="Finishing single sign-on...">
+            <Stack sx={{ alignItems: 'center', py: 2 }}>
+              <CircularProgress size={32} />
+            </Stack>
+          </AuthCard>
+        ) : screen === 'resetPassword' && resetToken ? (
+          <ResetPassword
+            token={resetToken}
+            onDone={() => leaveReset('signIn')}
+            onRequestNewLink={() => leaveReset('forgotPassword')}
+          />
+        ) : screen === 'forgotPassword' ? (
+          <ForgotPassword onBack={() => setScreen('signIn')} />
+        ) : mfaChallenge ? (
+          <TwoFactor
+            challenge={mfaChallenge}
+            onVerified={handleMfaVerified}
+            onCancel={() => setMfaChallenge(null)}
+          />
+        ) : (
+          <SignInPage
+            signIn={signIn}
+            providers={providers}
+            slots={{ subtitle: BackendSubtitle, rememberMe: RememberMe, forgotPasswordLink: ForgotPasswordLink }}
+            slotProps={{
+              emailField: { label: 'Admin ID', autoFocus: true },
+              passwordField: { label: 'Password' },
+              forgotPasswordLink: { onClick: () => setScreen('forgotPassword') }
+            }}
+          />
+        )}
       </AppProvider>
     </ThemeProvider>
   );
@@ -0,0 +1,15 @@
+import type { LoginResponse, MfaChallenge, MfaProof } from '../types';
+
+export const TOTP_CODE_PATTERN = /^\d{6}$/;
+
+// Returns the pending second-factor step, or null when the login response already carries a session.
+export function toMfaChallenge(email: string, data: LoginResponse): MfaChallenge | null {
+  if (!data.mfa_required || !data.mfa_token) return null;
+  return { email, token: data.mfa_token, enrolled: data.mfa_enrolled ?? true };
+}
+
+// Six digits are an authenticator code; anything else is treated as a recovery code.
+export function toMfaProof(input: string): MfaProof {
+  const value = input.replace(/\s/g, '');
+  return TOTP_CODE_PATTERN.test(value) ? { code: value } : { recovery_code: input.trim() };
+}
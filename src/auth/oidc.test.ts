@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setActiveBackend } from '../components/config';
+
+const ISSUER = 'mock://idp';
+const CLIENT_ID = 'user-directory';
+const NOW_SECONDS = Date.UTC(2026, 2, 2, 10) / 1000;
+
+const idp = vi.hoisted(() => ({ fetch: vi.fn<(url: string, init?: RequestInit) => Promise<Response>>() }));
+vi.mock('../mock/mockIdp', () => ({ mockIdpFetch: idp.fetch }));
+
+type Oidc = typeof import('./oidc');
+
+// completeOidcSignIn is single-flight for the whole page, so every test gets a fresh module.
+let oidc: Oidc;
+
+const pending = {
+  issuer: ISSUER,
+  clientId: CLIENT_ID,
+  state: 'state-1',
+  nonce: 'nonce-1',
+  codeVerifier: 'verifier-1',
+  redirectUri: 'http://localhost:3000/',
+  returnTo: '/users?q=ali'
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function idToken(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => btoa(JSON.stringify(value)).replace(/=+$/, '');
+  return `${encode({ alg: 'none' })}.${encode(claims)}.`;
+}
+
+const validClaims = {
+  iss: ISSUER,
+  aud: CLIENT_ID,
+  nonce: 'nonce-1',
+  exp: NOW_SECONDS + 300,
+  email: 'sso@example.com',
+  role: 'editor'
+};
+
+// Arrives from the provider with `search` after a sign-in started with `pending`.
+function returnFromProvider(search: string, claims: Record<string, unknown> = validClaims): void {
+  sessionStorage.setItem('oidc:pending', JSON.stringify(pending));
+  window.history.replaceState(null, '', `/${search}`);
+  idp.fetch.mockImplementation(async (url) => {
+    if (url.endsWith('/.well-known/openid-configuration')) {
+      return json({ issuer: ISSUER, authorization_endpoint: `${ISSUER}/authorize`, token_endpoint: `${ISSUER}/token` });
+    }
+    return json({ id_token: idToken(claims), access_token: 'access-1', token_type: 'Bearer' });
+  });
+}
+
+function tokenRequests(): URLSearchParams[] {
+  return idp.fetch.mock.calls
+    .filter(([url]) => url === `${ISSUER}/token`)
+    .map(([, init]) => new URLSearchParams(init?.body as URLSearchParams));
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW_SECONDS * 1000);
+  setActiveBackend('mock');
+  vi.resetModules();
+  oidc = await import('./oidc');
+});
+
+afterEach(() => {
+  idp.fetch.mockReset();
+  sessionStorage.clear();
+  localStorage.clear();
+  vi.useRealTimers();
+});
+
+describe('toPkceChallenge', () => {
+  it('derives the S256 challenge of RFC 7636', async () => {
+    expect(await oidc.toPkceChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe(
+      'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+    );
+  });
+});
+
+describe('completeOidcSignIn', () => {
+  it('proves the exchange with the code verifier and signs in', async () => {
+    returnFromProvider('?code=code-1&state=state-1');
+    const signIn = await oidc.completeOidcSignIn();
+
+    expect(signIn).toMatchObject({ email: 'sso@example.com', issuer: ISSUER });
+    expect(signIn.data).toMatchObject({ access_token: 'access-1', role: 'editor' });
+    expect(tokenRequests().map((body) => [body.get('code'), body.get('code_verifier')])).toEqual([
+      ['code-1', 'verifier-1']
+    ]);
+    expect(`${window.location.pathname}${window.location.search}`).toBe('/users?q=ali');
+  });
+
+  it('rejects a response for another sign-in attempt before exchanging the code', async () => {
+    returnFromProvider('?code=code-1&state=forged');
+    await expect(oidc.completeOidcSignIn()).rejects.toThrow('does not match this attempt');
+    expect(idp.fetch).not.toHaveBeenCalled();
+    // The code is gone from the address bar and the attempt cannot be retried with it.
+    expect(window.location.search).toBe('?q=ali');
+    expect(sessionStorage.getItem('oidc:pending')).toBeNull();
+  });
+
+  it.each([
+    ['another nonce', { nonce: 'nonce-2' }, 'does not belong to this sign-in attempt'],
+    ['another issuer', { iss: 'https://evil.example.com' }, 'issued by a different provider'],
+    ['another audience', { aud: ['someone-else'] }, 'issued to a different application'],
+    ['an expired token', { exp: NOW_SECONDS - 61 }, 'has expired'],
+    ['no expiry', { exp: undefined }, 'has expired']
+  ])('rejects an ID token with %s', async (_case, override, message) => {
+    returnFromProvider('?code=code-1&state=state-1', { ...validClaims, ...override });
+    await expect(oidc.completeOidcSignIn()).rejects.toThrow(message);
+  });
+
+  it('accepts a token that expired within the allowed clock skew, or lists the client among others', async () => {
+    returnFromProvider('?code=code-1&state=state-1', {
+      ...validClaims,
+      aud: ['api', CLIENT_ID],
+      exp: NOW_SECONDS - 30
+    });
+    await expect(oidc.completeOidcSignIn()).resolves.toMatchObject({ email: 'sso@example.com' });
+  });
+});
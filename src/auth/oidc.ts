@@ -0,0 +1,245 @@
+import { getActiveBackend, type OidcConfig } from '../components/config';
+import type { LoginResponse, OidcDiscovery, OidcTokenResponse } from '../types';
+import { oidcDiscoverySchema, oidcTokenResponseSchema } from '../utils/apiSchemas';
+import { reportContractViolation } from '../utils/contractReport';
+import { validate, type Schema } from '../utils/schema';
+import { decodeTokenClaims, type TokenClaims } from './jwt';
+
+// OpenID Connect authorization code flow with PKCE (RFC 7636) for a public
+// browser client: no client secret, the code verifier proves the exchange
+// comes from the tab that started the sign-in.
+
+const PENDING_KEY = 'oidc:pending';
+// Tolerates small clock differences between the browser and the identity provider.
+const CLOCK_SKEW_SECONDS = 60;
+const ROLE_PRIORITY = ['admin', 'editor', 'viewer'] as const;
+
+interface PendingSignIn {
+  issuer: string;
+  clientId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  // Where the user was when they left for the provider.
+  returnTo: string;
+}
+
+export interface OidcSignIn {
+  email: string;
+  issuer: string;
+  data: LoginResponse;
+}
+
+async function idpFetch(url: string, init?: RequestInit): Promise<Response> {
+  if (url.startsWith('mock://')) {
+    const { mockIdpFetch } = await import('../mock/mockIdp');
+    return mockIdpFetch(url, init);
+  }
+  return fetch(url, init);
+}
+
+async function readIdpJson<T>(response: Response, endpoint: string, schema: Schema<T>): Promise<T> {
+  let data: unknown = null;
+  try {
+    data = await response.json();
+  } catch {
+    data = null;
+  }
+  if (!response.ok) {
+    const body = (data ?? {}) as { error?: unknown; error_description?: unknown };
+    const reason =
+      typeof body.error_description === 'string'
+        ? body.error_description
+        : typeof body.error === 'string'
+          ? body.error
+          : `HTTP ${response.status}`;
+    throw new Error(`The identity provider refused the request: ${reason}`);
+  }
+  reportContractViolation(endpoint, validate(schema, data));
+  return data as T;
+}
+
+const discoveries = new Map<string, Promise<OidcDiscovery>>();
+
+function discover(issuer: string): Promise<OidcDiscovery> {
+  let pending = discoveries.get(issuer);
+  if (!pending) {
+    pending = idpFetch(`${issuer}/.well-known/openid-configuration`, {
+      headers: { Accept: 'application/json' }
+    }).then((response) => readIdpJson(response, 'GET /.well-known/openid-configuration', oidcDiscoverySchema));
+    // A failed lookup is retried on the next attempt instead of being cached.
+    pending.catch(() => discoveries.delete(issuer));
+    discoveries.set(issuer, pending);
+  }
+  return pending;
+}
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomToken(byteLength = 32): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+// S256 code challenge for a verifier.
+export async function toPkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+export function getRedirectUri(): string {
+  return new URL(import.meta.env.BASE_URL, window.location.origin).toString();
+}
+
+function readPending(): PendingSignIn | null {
+  try {
+    const stored = sessionStorage.getItem(PENDING_KEY);
+    return stored ? (JSON.parse(stored) as PendingSignIn) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Leaves the app for the provider's sign-in page.
+export async function startOidcSignIn(config: OidcConfig): Promise<void> {
+  const discovery = await discover(config.issuer);
+  const pending: PendingSignIn = {
+    issuer: config.issuer,
+    clientId: config.clientId,
+    state: randomToken(16),
+    nonce: randomToken(16),
+    codeVerifier: randomToken(48),
+    redirectUri: getRedirectUri(),
+    returnTo: `${window.location.pathname}${window.location.search}${window.location.hash}`
+  };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: pending.redirectUri,
+    scope: config.scope,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await toPkceChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256'
+  }).toString();
+  window.location.assign(url.toString());
+}
+
+// True when this page load is the provider redirecting back to us.
+export function isOidcCallback(): boolean {
+  const params = new URLSearchParams(window.location.search);
+  return params.has('state') && (params.has('code') || params.has('error')) && readPending() !== null;
+}
+
+async function requestTokens(tokenEndpoint: string, body: URLSearchParams): Promise<OidcTokenResponse> {
+  const response = await idpFetch(tokenEndpoint, {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/x-www-form-urlencoded' },
+    body
+  });
+  return readIdpJson(response, 'POST token_endpoint', oidcTokenResponseSchema);
+}
+
+// The token came straight from the token endpoint over TLS, which OIDC Core
+// 3.1.3.7 accepts in place of a signature check; the backend still verifies
+// every access token it receives.
+function checkIdToken(idToken: string | undefined, pending: PendingSignIn): TokenClaims {
+  const claims = decodeTokenClaims(idToken ?? null);
+  if (!claims) throw new Error('The identity provider did not return a readable ID token');
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== pending.issuer) throw new Error('The ID token was issued by a different provider');
+  if (!audience.includes(pending.clientId)) throw new Error('The ID token was issued to a different application');
+  if (claims.nonce !== pending.nonce) throw new Error('The ID token does not belong to this sign-in attempt');
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < Date.now() / 1000) {
+    throw new Error('The ID token has expired');
+  }
+  return claims;
+}
+
+function claimString(claims: TokenClaims, name: string): string | undefined {
+  const value = claims[name];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+// Providers send either a single `role` or a `roles` list; the strongest known role wins.
+function toLoginResponse(tokens: OidcTokenResponse, claims: TokenClaims): LoginResponse {
+  const roles: unknown[] = Array.isArray(claims.roles) ? claims.roles : [claims.role];
+  const permissions = Array.isArray(claims.permissions)
+    ? claims.permissions.filter((entry): entry is string => typeof entry === 'string')
+    : undefined;
+  return {
+    // Backends that trust the provider accept its access token; the ID token covers providers that issue none.
+    access_token: tokens.access_token ?? tokens.id_token,
+    refresh_token: tokens.refresh_token,
+    role: ROLE_PRIORITY.find((role) => roles.includes(role)),
+    permissions
+  };
+}
+
+async function exchangeCallback(): Promise<OidcSignIn> {
+  const pending = readPending();
+  const params = new URLSearchParams(window.location.search);
+  sessionStorage.removeItem(PENDING_KEY);
+  // The code must not linger in the address bar or in history.
+  window.history.replaceState(null, '', pending?.returnTo ?? getRedirectUri());
+
+  if (!pending) throw new Error('No single sign-on attempt is in progress');
+  if (params.get('state') !== pending.state) {
+    throw new Error('The sign-in response does not match this attempt. Please try again.');
+  }
+  const error = params.get('error');
+  if (error) {
+    throw new Error(params.get('error_description') ?? `The identity provider returned "${error}"`);
+  }
+  if (getActiveBackend().oidc?.issuer !== pending.issuer) {
+    throw new Error('The backend changed during sign-in. Please try again.');
+  }
+
+  const discovery = await discover(pending.issuer);
+  const tokens = await requestTokens(
+    discovery.token_endpoint,
+    new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.get('code') ?? '',
+      redirect_uri: pending.redirectUri,
+      client_id: pending.clientId,
+      code_verifier: pending.codeVerifier
+    })
+  );
+  const claims = checkIdToken(tokens.id_token, pending);
+  const email = claimString(claims, 'email') ?? claimString(claims, 'preferred_username') ?? claimString(claims, 'sub');
+  if (!email) throw new Error('The ID token does not identify the user');
+
+  return { email, issuer: pending.issuer, data: toLoginResponse(tokens, claims) };
+}
+
+let activeCallback: Promise<OidcSignIn> | null = null;
+
+// Single-flight: an authorization code can only be exchanged once, even if
+// the callback screen mounts twice.
+export function completeOidcSignIn(): Promise<OidcSignIn> {
+  if (!activeCallback) activeCallback = exchangeCallback();
+  return activeCallback;
+}
+
+export async function refreshOidcTokens(config: OidcConfig, refreshToken: string): Promise<LoginResponse> {
+  const discovery = await discover(config.issuer);
+  const tokens = await requestTokens(
+    discovery.token_endpoint,
+    new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      client_id: config.clientId
+    })
+  );
+  return { access_token: tokens.access_token ?? tokens.id_token, refresh_token: tokens.refresh_token };
+}
@@ -0,0 +1,34 @@
+// Strength rules for new passwords. The mock backend enforces the same list,
+// and real servers are expected to report a failed rule as a `password` field error.
+
+export interface PasswordRule {
+  id: string;
+  label: string;
+  test: (password: string) => boolean;
+}
+
+const BASE_RULES: PasswordRule[] = [
+  { id: 'length', label: 'At least 12 characters', test: (password) => password.length >= 12 },
+  { id: 'lower', label: 'A lowercase letter', test: (password) => /[a-z]/.test(password) },
+  { id: 'upper', label: 'An uppercase letter', test: (password) => /[A-Z]/.test(password) },
+  { id: 'digit', label: 'A number', test: (password) => /\d/.test(password) },
+  { id: 'symbol', label: 'A symbol', test: (password) => /[^A-Za-z0-9\s]/.test(password) }
+];
+
+// The Admin ID rule only applies when the account is known (not on the reset-link screen).
+export function getPasswordRules(email?: string | null): PasswordRule[] {
+  const name = email?.split('@')[0]?.toLowerCase() ?? '';
+  if (name.length < 3) return BASE_RULES;
+  return [
+    ...BASE_RULES,
+    {
+      id: 'email',
+      label: 'Does not contain your Admin ID',
+      test: (password) => !password.toLowerCase().includes(name)
+    }
+  ];
+}
+
+export function failedPasswordRules(password: string, email?: string | null): PasswordRule[] {
+  return getPasswordRules(email).filter((rule) => !rule.test(password));
+}
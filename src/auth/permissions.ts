@@ -0,0 +1,46 @@
+import type { AuthProfile, Permission, Role } from '../types';
+
+export const ALL_PERMISSIONS: Permission[] = [
+  'users:create',
+  'users:edit',
+  'users:delete',
+  'users:restore',
+  'users:purge',
+  'users:import',
+  'users:export'
+];
+
+// Used when the server names a role but not its permission set.
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['users:export'],
+  editor: ['users:create', 'users:edit', 'users:delete', 'users:restore', 'users:export'],
+  admin: ALL_PERMISSIONS
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'users:create': 'create users',
+  'users:edit': 'edit users',
+  'users:delete': 'delete users',
+  'users:restore': 'restore deleted users',
+  'users:purge': 'permanently delete users',
+  'users:import': 'import users',
+  'users:export': 'export users'
+};
+
+// Backends without role support keep today's behaviour: everything is allowed
+// in the UI and the server remains the one enforcing access.
+export const UNRESTRICTED_PROFILE: AuthProfile = { role: null, permissions: ALL_PERMISSIONS };
+
+function toRole(value: unknown): Role | null {
+  return value === 'viewer' || value === 'editor' || value === 'admin' ? value : null;
+}
+
+// Builds a profile from a login or /auth/me response; null when it carries no role information.
+export function toAuthProfile(data: { role?: string; permissions?: string[] }): AuthProfile | null {
+  const role = toRole(data.role);
+  if (Array.isArray(data.permissions)) {
+    const permissions = ALL_PERMISSIONS.filter((permission) => data.permissions?.includes(permission));
+    return { role, permissions };
+  }
+  return role ? { role, permissions: ROLE_PERMISSIONS[role] } : null;
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import type { FormEvent, JSX } from 'react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Link from '@mui/material/Link';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import AuthCard from './authCard';
+import { failedPasswordRules } from './passwordRules';
+import PasswordRules from '../components/PasswordRules';
+import { formatApiErrorSummary, type ParsedApiError } from '../utils/api';
+import { apiClient, toParsedApiError } from '../utils/apiClient';
+
+interface ResetPasswordProps {
+  token: string;
+  onDone: () => void;
+  onRequestNewLink: () => void;
+}
+
+// Landing screen for the emailed reset link (`?reset_token=...`).
+function ResetPassword({ token, onDone, onRequestNewLink }: ResetPasswordProps): JSX.Element {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<ParsedApiError | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  const mismatch = confirmation.length > 0 && confirmation !== password;
+  const canSubmit = failedPasswordRules(password).length === 0 && confirmation === password;
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await apiClient.resetPassword(token, password);
+      setIsDone(true);
+    } catch (resetError) {
+      setError(toParsedApiError(resetError));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isDone) {
+    return (
+      <AuthCard title="Password updated">
+        <Stack spacing={2}>
+          <Alert severity="success">Your password was changed. Sign in with the new one.</Alert>
+          <Button variant="contained" fullWidth onClick={onDone}>
+            Sign in
+          </Button>
+        </Stack>
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard title="Choose a new password">
+      <Box component="form" onSubmit={handleSubmit} noValidate>
+        <Stack spacing={2}>
+          {error && (
+            <Alert
+              severity="error"
+              action={
+                error.fieldErrors?.token ? (
+                  <Button color="inherit" size="small" onClick={onRequestNewLink}>
+                    New link
+                  </Button>
+                ) : undefined
+              }
+            >
+              {formatApiErrorSummary(error, ['password'])}
+            </Alert>
+          )}
+          <TextField
+            label="New password"
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            error={Boolean(error?.fieldErrors?.password)}
+            helperText={error?.fieldErrors?.password}
+            autoComplete="new-password"
+            autoFocus
+            fullWidth
+            required
+            size="small"
+          />
+          <PasswordRules password={password} />
+          <TextField
+            label="Confirm new password"
+            type="password"
+            value={confirmation}
+            onChange={(event) => setConfirmation(event.target.value)}
+            error={mismatch}
+            helperText={mismatch ? 'Passwords do not match' : undefined}
+            autoComplete="new-password"
+            fullWidth
+            required
+            size="small"
+          />
+          <Button type="submit" variant="contained" fullWidth disabled={!canSubmit || isSubmitting}>
+            {isSubmitting ? 'Saving...' : 'Set new password'}
+          </Button>
+          <Link component="button" type="button" variant="body2" onClick={onDone} sx={{ alignSelf: 'flex-start' }}>
+            Back to sign in
+          </Link>
+        </Stack>
+      </Box>
+    </AuthCard>
+  );
+}
+
+export default ResetPassword;
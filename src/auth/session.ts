@@ -0,0 +1,83 @@
+import { getActiveBackend } from '../components/config';
+import type { AuthProfile } from '../types';
+
+const SESSION_FIELDS = ['isLoggedIn', 'token', 'refreshToken', 'profile', 'issuer'] as const;
+
+// Sessions are kept per backend profile so switching backends never reuses another server's token.
+function sessionKey(name: string): string {
+  return `${getActiveBackend().id}:${name}`;
+}
+
+// "Remember me" sessions live in localStorage and survive closing the browser;
+// all others end with the tab.
+function sessionStore(): Storage {
+  return localStorage.getItem(sessionKey('isLoggedIn')) === 'true' ? localStorage : sessionStorage;
+}
+
+export function isSessionActive(): boolean {
+  return sessionStore().getItem(sessionKey('isLoggedIn')) === 'true';
+}
+
+export function isSessionRemembered(): boolean {
+  return localStorage.getItem(sessionKey('isLoggedIn')) === 'true';
+}
+
+export function getSessionToken(): string | null {
+  return sessionStore().getItem(sessionKey('token'));
+}
+
+export function getRefreshToken(): string | null {
+  return sessionStore().getItem(sessionKey('refreshToken'));
+}
+
+export function getSessionEmail(): string | null {
+  return localStorage.getItem(sessionKey('email'));
+}
+
+export function saveSession(token: string | undefined, email: string, refreshToken?: string, remember = false): void {
+  clearSession();
+  (remember ? localStorage : sessionStorage).setItem(sessionKey('isLoggedIn'), 'true');
+  updateSessionTokens(token, refreshToken);
+  localStorage.setItem(sessionKey('email'), email);
+}
+
+// Called after a silent refresh; a missing refresh token keeps the current one.
+export function updateSessionTokens(token: string | undefined, refreshToken?: string): void {
+  const store = sessionStore();
+  if (token) {
+    store.setItem(sessionKey('token'), token);
+  }
+  if (refreshToken) {
+    store.setItem(sessionKey('refreshToken'), refreshToken);
+  }
+}
+
+// Set when the session came from the OpenID Connect provider, which then also handles refreshes.
+export function getSessionIssuer(): string | null {
+  return sessionStore().getItem(sessionKey('issuer'));
+}
+
+export function saveSessionIssuer(issuer: string | null): void {
+  if (issuer) sessionStore().setItem(sessionKey('issuer'), issuer);
+  else sessionStore().removeItem(sessionKey('issuer'));
+}
+
+export function getSessionProfile(): AuthProfile | null {
+  try {
+    const stored = sessionStore().getItem(sessionKey('profile'));
+    return stored ? (JSON.parse(stored) as AuthProfile) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSessionProfile(profile: AuthProfile): void {
+  sessionStore().setItem(sessionKey('profile'), JSON.stringify(profile));
+}
+
+export function clearSession(): void {
+  SESSION_FIELDS.forEach((field) => {
+    sessionStorage.removeItem(sessionKey(field));
+    localStorage.removeItem(sessionKey(field));
+  });
+}
@@ -0,0 +1,52 @@
+import { setActiveBackend } from '../components/config';
+import type { AuthProfile } from '../types';
+
+// Tabs keep their own sessionStorage, so sign-in state is spread over a
+// BroadcastChannel. Messages never echo back to the tab that posted them.
+
+const CHANNEL_NAME = 'user-directory-session';
+
+export type SessionEvent =
+  | {
+      type: 'login';
+      backendId: string;
+      email: string;
+      token: string | null;
+      refreshToken: string | null;
+      profile: AuthProfile;
+      issuer: string | null;
+      remember: boolean;
+    }
+  | { type: 'logout'; backendId: string }
+  | { type: 'refresh'; backendId: string; token: string | null; refreshToken: string | null }
+  | { type: 'backend'; backendId: string }
+  // Sent by a new tab; any signed-in tab answers with a 'login' event.
+  | { type: 'sync'; backendId: string };
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+export function publishSessionEvent(event: SessionEvent): void {
+  getChannel()?.postMessage(event);
+}
+
+// The page reloads on a backend switch; other tabs follow so none keeps talking to the old server.
+export function switchBackend(id: string): void {
+  setActiveBackend(id);
+  publishSessionEvent({ type: 'backend', backendId: id });
+  window.location.reload();
+}
+
+export function subscribeSessionEvents(listener: (event: SessionEvent) => void): () => void {
+  const target = getChannel();
+  if (!target) return () => {};
+  const handleMessage = (message: MessageEvent<SessionEvent>) => listener(message.data);
+  target.addEventListener('message', handleMessage);
+  return () => target.removeEventListener('message', handleMessage);
+}
@@ -0,0 +1,10 @@
+import { createTheme } from '@mui/material/styles';
+
+// Shared by every screen in the sign-in flow, including the mock identity provider.
+export const signInTheme = createTheme({
+  palette: {
+    mode: 'light',
+    primary: { main: '#1e40af' },
+    background: { default: '#f8fafc' }
+  }
+});
@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import type { FormEvent, JSX } from 'react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import Link from '@mui/material/Link';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { toDataURL } from 'qrcode';
+import AuthCard from './authCard';
+import { TOTP_CODE_PATTERN } from './mfa';
+import { getActiveBackend } from '../components/config';
+import { formatApiErrorMessage } from '../utils/api';
+import { apiClient, toParsedApiError } from '../utils/apiClient';
+import type { LoginResponse, MfaChallenge, MfaEnrollment, MfaProof } from '../types';
+
+interface TwoFactorProps {
+  challenge: MfaChallenge;
+  onVerified: (data: LoginResponse) => void;
+  onCancel: () => void;
+}
+
+type ProofMode = 'code' | 'recovery';
+
+function formatSecret(secret: string): string {
+  return secret.replace(/(.{4})/g, '$1 ').trim();
+}
+
+function EnrollmentDetails({ enrollment, qrCode }: { enrollment: MfaEnrollment; qrCode: string | null }): JSX.Element {
+  return (
+    <Stack spacing={1.5} sx={{ alignItems: 'center', mb: 2 }}>
+      <Typography variant="body2">Scan this QR code with your authenticator app.</Typography>
+      {qrCode ? (
+        <Box component="img" src={qrCode} alt="Authenticator setup QR code" sx={{ width: 200, height: 200 }} />
+      ) : (
+        <CircularProgress size={32} />
+      )}
+      <Typography variant="body2" color="textSecondary">
+        Or enter this key manually:
+      </Typography>
+      <Typography component="code" sx={{ fontFamily: 'monospace', fontWeight: 600, letterSpacing: 1 }}>
+        {formatSecret(enrollment.secret)}
+      </Typography>
+      {enrollment.recovery_codes && enrollment.recovery_codes.length > 0 && (
+        <Alert severity="warning" sx={{ width: '100%' }}>
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your device.
+          <Box
+            component="ul"
+            sx={{ columns: 2, fontFamily: 'monospace', listStyle: 'none', m: 0, mt: 1, p: 0 }}
+          >
+            {enrollment.recovery_codes.map((code) => (
+              <li key={code}>{code}</li>
+            ))}
+          </Box>
+        </Alert>
+      )}
+    </Stack>
+  );
+}
+
+// Second sign-in step for accounts that require TOTP. Accounts without a
+// confirmed authenticator get the enrollment screen first; the first valid
+// code both confirms the enrollment and completes the sign-in.
+function TwoFactor({ challenge, onVerified, onCancel }: TwoFactorProps): JSX.Element {
+  const [mode, setMode] = useState<ProofMode>('code');
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (challenge.enrolled) return;
+    let cancelled = false;
+
+    apiClient
+      .enrollMfa(challenge.token)
+      .then(async (details) => {
+        if (cancelled) return;
+        setEnrollment(details);
+        const image = await toDataURL(details.otpauth_url, { margin: 1, width: 200 });
+        if (!cancelled) setQrCode(image);
+      })
+      .catch((enrollError) => {
+        console.error('Two-step enrollment failed:', enrollError);
+        if (!cancelled) setError(formatApiErrorMessage('Could not start two-step setup', toParsedApiError(enrollError)));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [challenge]);
+
+  const isEnrolling = !challenge.enrolled;
+  const trimmed = value.replace(/\s/g, '');
+  const canSubmit = mode === 'code' ? TOTP_CODE_PATTERN.test(trimmed) : value.trim().length > 0;
+
+  const switchMode = (next: ProofMode) => {
+    setMode(next);
+    setValue('');
+    setError(null);
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const proof: MfaProof = mode === 'code' ? { code: trimmed } : { recovery_code: value.trim() };
+      const data = await apiClient.verifyMfa(challenge.token, proof);
+      if (!data.access_token && getActiveBackend().authStyle === 'bearer') {
+        throw new Error('No token received from server');
+      }
+      onVerified(data);
+    } catch (verifyError) {
+      setError(formatApiErrorMessage('', toParsedApiError(verifyError)));
+      setValue('');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthCard
+      title={isEnrolling ? 'Set up two-step verification' : 'Two-step verification'}
+      subtitle={
+        mode === 'recovery'
+          ? 'Enter one of the recovery codes you saved when you set up two-step verification.'
+          : `Enter the 6-digit code from your authenticator app for ${challenge.email}.`
+      }
+    >
+      {isEnrolling && enrollment && <EnrollmentDetails enrollment={enrollment} qrCode={qrCode} />}
+      <Box component="form" onSubmit={handleSubmit} noValidate>
+        <Stack spacing={2}>
+          {error && <Alert severity="error">{error}</Alert>}
+          <TextField
+            label={mode === 'code' ? 'Authentication code' : 'Recovery code'}
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            autoFocus
+            fullWidth
+            size="small"
+            autoComplete="one-time-code"
+            disabled={isEnrolling && !enrollment}
+            slotProps={{
+              htmlInput:
+                mode === 'code'
+                  ? { inputMode: 'numeric', maxLength: 7, pattern: '[0-9 ]*' }
+                  : { spellCheck: false, autoCapitalize: 'none' }
+            }}
+          />
+          <Button type="submit" variant="contained" fullWidth disabled={!canSubmit || isSubmitting}>
+            {isSubmitting ? 'Verifying...' : 'Verify'}
+          </Button>
+          <Stack direction="row" sx={{ justifyContent: 'space-between' }}>
+            <Link component="button" type="button" variant="body2" onClick={onCancel}>
+              Back to sign in
+            </Link>
+            {!isEnrolling && (
+              <Link
+                component="button"
+                type="button"
+                variant="body2"
+                onClick={() => switchMode(mode === 'code' ? 'recovery' : 'code')}
+              >
+                {mode === 'code' ? 'Use a recovery code' : 'Use an authenticator code'}
+              </Link>
+            )}
+          </Stack>
+        </Stack>
+      </Box>
+    </AuthCard>
+  );
+}
+
+export default TwoFactor;
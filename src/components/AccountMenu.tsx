@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import type { JSX } from 'react';
+import './AccountMenu.css';
+import type { Role } from '../types';
+
+interface AccountMenuProps {
+  email: string | null;
+  role: Role | null;
+  onChangePassword: () => void;
+  onSignOut: () => void;
+}
+
+function AccountMenu({ email, role, onChangePassword, onSignOut }: AccountMenuProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const choose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div className="account-menu" ref={containerRef}>
+      <button
+        className="action-btn account-btn"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        type="button"
+      >
+        <span className="account-email">{email ?? 'Account'}</span>
+        <span aria-hidden="true">▾</span>
+      </button>
+      {isOpen && (
+        <div className="account-dropdown" role="menu">
+          {role && <div className="account-role">Signed in as {role}</div>}
+          <button className="account-item" onClick={() => choose(onChangePassword)} role="menuitem" type="button">
+            Change password
+          </button>
+          <button
+            className="account-item account-signout"
+            onClick={() => choose(onSignOut)}
+            role="menuitem"
+            type="button"
+          >
+            Sign out
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AccountMenu;
@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FormEvent, JSX } from 'react';
+import './AdvancedFilters.css';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { useListDepartmentsQuery } from '../store/usersApi';
+import { setAdvancedQuery } from '../store/usersSlice';
+import type { AdvancedQuery, QueryCombinator, QueryCondition, QueryField, QueryOperator } from '../types';
+import {
+  EMPTY_QUERY,
+  OPERATORS,
+  OPERATOR_LABELS,
+  QUERY_FIELDS,
+  compactQuery,
+  countConditions,
+  isCompleteCondition,
+  newCondition,
+  newGroup
+} from '../utils/advancedQuery';
+
+const FIELD_ORDER = Object.keys(QUERY_FIELDS) as QueryField[];
+const STATUS_SUGGESTIONS = ['active', 'inactive'];
+const NO_DEPARTMENTS: string[] = [];
+
+// Panel for building AND/OR groups of conditions. Edits a draft and only
+// touches the list when applied.
+function AdvancedFilters(): JSX.Element | null {
+  const dispatch = useAppDispatch();
+  const isSupported = useAppSelector((state) => state.backend.capabilities.includes('advancedFilters'));
+  const advancedQuery = useAppSelector((state) => state.users.advancedQuery);
+  const { data: departments = NO_DEPARTMENTS } = useListDepartmentsQuery();
+  const [draft, setDraft] = useState<AdvancedQuery | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeCount = countConditions(advancedQuery);
+
+  const close = useCallback(() => setDraft(null), []);
+
+  useEffect(() => {
+    if (!draft) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) close();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') close();
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [close, draft]);
+
+  if (!isSupported) return null;
+
+  const open = () => {
+    setDraft(advancedQuery.groups.length > 0 ? advancedQuery : { combinator: 'and', groups: [newGroup()] });
+  };
+
+  const updateGroup = (groupIndex: number, update: (conditions: QueryCondition[]) => QueryCondition[]) => {
+    setDraft((current) =>
+      current && {
+        ...current,
+        groups: current.groups.map((group, index) =>
+          index === groupIndex ? { ...group, conditions: update(group.conditions) } : group
+        )
+      }
+    );
+  };
+
+  const updateCondition = (groupIndex: number, conditionIndex: number, changes: Partial<QueryCondition>) => {
+    updateGroup(groupIndex, (conditions) =>
+      conditions.map((condition, index) => {
+        if (index !== conditionIndex) return condition;
+        const next = { ...condition, ...changes };
+        // A new field may not support the old operator, and its old value rarely makes sense.
+        if (changes.field && changes.field !== condition.field) return newCondition(changes.field);
+        if (next.operator !== 'between') delete next.valueTo;
+        return next;
+      })
+    );
+  };
+
+  const setGroupCombinator = (groupIndex: number, combinator: QueryCombinator) => {
+    setDraft(
+      (current) =>
+        current && {
+          ...current,
+          groups: current.groups.map((group, index) => (index === groupIndex ? { ...group, combinator } : group))
+        }
+    );
+  };
+
+  const removeGroup = (groupIndex: number) => {
+    setDraft((current) => current && { ...current, groups: current.groups.filter((_, index) => index !== groupIndex) });
+  };
+
+  const handleApply = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (draft) dispatch(setAdvancedQuery(compactQuery(draft)));
+    close();
+  };
+
+  const handleClear = () => {
+    dispatch(setAdvancedQuery(EMPTY_QUERY));
+    close();
+  };
+
+  const incomplete = draft?.groups.some((group) => !group.conditions.every(isCompleteCondition)) ?? false;
+
+  return (
+    <div className="advanced-filters" ref={containerRef}>
+      <button
+        className="advanced-filters-toggle"
+        onClick={() => (draft ? close() : open())}
+        aria-expanded={Boolean(draft)}
+        type="button"
+      >
+        Advanced filters{activeCount > 0 ? ` (${activeCount})` : ''}
+      </button>
+
+      {draft && (
+        <form className="advanced-filters-panel" onSubmit={handleApply} aria-label="Advanced filters">
+          {draft.groups.length > 1 && (
+            <label className="advanced-filters-combinator">
+              Show users matching
+              <select
+                value={draft.combinator}
+                onChange={(event) => setDraft({ ...draft, combinator: event.target.value as QueryCombinator })}
+              >
+                <option value="and">all groups</option>
+                <option value="or">any group</option>
+              </select>
+            </label>
+          )}
+
+          {draft.groups.map((group, groupIndex) => (
+            <fieldset key={groupIndex} className="advanced-filters-group">
+              <legend>
+                <select
+                  value={group.combinator}
+                  onChange={(event) => setGroupCombinator(groupIndex, event.target.value as QueryCombinator)}
+                  aria-label={`How group ${groupIndex + 1} combines its conditions`}
+                >
+                  <option value="and">All of</option>
+                  <option value="or">Any of</option>
+                </select>
+                <button
+                  className="advanced-filters-remove"
+                  onClick={() => removeGroup(groupIndex)}
+                  aria-label={`Remove group ${groupIndex + 1}`}
+                  type="button"
+                >
+                  ✕
+                </button>
+              </legend>
+
+              {group.conditions.map((condition, conditionIndex) => {
+                const { kind } = QUERY_FIELDS[condition.field];
+                const inputType = kind === 'date' ? 'date' : 'text';
+                const suggestions =
+                  condition.field === 'department'
+                    ? 'advanced-filters-departments'
+                    : condition.field === 'status'
+                      ? 'advanced-filters-statuses'
+                      : undefined;
+                return (
+                  <div key={conditionIndex} className="advanced-filters-condition">
+                    <select
+                      value={condition.field}
+                      onChange={(event) =>
+                        updateCondition(groupIndex, conditionIndex, { field: event.target.value as QueryField })
+                      }
+                      aria-label="Field"
+                    >
+                      {FIELD_ORDER.map((field) => (
+                        <option key={field} value={field}>
+                          {QUERY_FIELDS[field].label}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={condition.operator}
+                      onChange={(event) =>
+                        updateCondition(groupIndex, conditionIndex, { operator: event.target.value as QueryOperator })
+                      }
+                      aria-label="Operator"
+                    >
+                      {OPERATORS[kind].map((operator) => (
+                        <option key={operator} value={operator}>
+                          {OPERATOR_LABELS[operator]}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type={inputType}
+                      value={condition.value}
+                      onChange={(event) => updateCondition(groupIndex, conditionIndex, { value: event.target.value })}
+                      placeholder={condition.field === 'emailDomain' ? 'example.com' : 'Value'}
+                      list={suggestions}
+                      aria-label="Value"
+                    />
+                    {condition.operator === 'between' && (
+                      <input
+                        type="date"
+                        value={condition.valueTo ?? ''}
+                        onChange={(event) =>
+                          updateCondition(groupIndex, conditionIndex, { valueTo: event.target.value })
+                        }
+                        aria-label="Until"
+                      />
+                    )}
+                    <button
+                      className="advanced-filters-remove"
+                      onClick={() =>
+                        updateGroup(groupIndex, (conditions) => conditions.filter((_, index) => index !== conditionIndex))
+                      }
+                      aria-label="Remove condition"
+                      type="button"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                );
+              })}
+
+              <button
+                className="advanced-filters-link"
+                onClick={() => updateGroup(groupIndex, (conditions) => [...conditions, newCondition()])}
+                type="button"
+              >
+                + Condition
+              </button>
+            </fieldset>
+          ))}
+
+          <button
+            className="advanced-filters-link"
+            onClick={() => setDraft({ ...draft, groups: [...draft.groups, newGroup()] })}
+            type="button"
+          >
+            + Group
+          </button>
+
+          <datalist id="advanced-filters-departments">
+            {departments.map((department) => (
+              <option key={department} value={department} />
+            ))}
+          </datalist>
+          <datalist id="advanced-filters-statuses">
+            {STATUS_SUGGESTIONS.map((status) => (
+              <option key={status} value={status} />
+            ))}
+          </datalist>
+
+          {incomplete && <p className="advanced-filters-hint">Conditions without a value are left out.</p>}
+
+          <div className="advanced-filters-actions">
+            <button className="advanced-filters-button" onClick={handleClear} type="button">
+              Clear all
+            </button>
+            <button className="advanced-filters-button" onClick={close} type="button">
+              Cancel
+            </button>
+            <button className="advanced-filters-button primary" type="submit">
+              Apply
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default AdvancedFilters;
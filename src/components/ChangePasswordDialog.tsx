@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import type { FormEvent, JSX } from 'react';
+import './SessionDialogs.css';
+import PasswordRules from './PasswordRules';
+import { useNotification } from './NotificationContext';
+import { failedPasswordRules } from '../auth/passwordRules';
+import { formatApiErrorSummary, type ParsedApiError } from '../utils/api';
+import { apiClient, toParsedApiError } from '../utils/apiClient';
+
+interface ChangePasswordDialogProps {
+  email: string | null;
+  onClose: () => void;
+}
+
+const SHOWN_FIELDS = ['current_password', 'new_password'];
+
+function ChangePasswordDialog({ email, onClose }: ChangePasswordDialogProps): JSX.Element {
+  const { showNotification } = useNotification();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<ParsedApiError | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const mismatch = confirmation.length > 0 && confirmation !== newPassword;
+  const canSubmit =
+    currentPassword.length > 0 && failedPasswordRules(newPassword, email).length === 0 && confirmation === newPassword;
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await apiClient.changePassword(currentPassword, newPassword);
+      showNotification('Password changed.', 'success');
+      onClose();
+    } catch (changeError) {
+      setError(toParsedApiError(changeError));
+      setIsSubmitting(false);
+    }
+  };
+
+  const summary = error ? formatApiErrorSummary(error, SHOWN_FIELDS) : null;
+
+  return (
+    <div className="session-overlay">
+      <form className="session-dialog" onSubmit={handleSubmit} aria-labelledby="change-password-title">
+        <h3 id="change-password-title">Change password</h3>
+        {summary && <p className="session-error">{summary}</p>}
+        <label className="session-field">
+          Current password
+          <input
+            type="password"
+            value={currentPassword}
+            onChange={(event) => setCurrentPassword(event.target.value)}
+            autoComplete="current-password"
+            aria-invalid={Boolean(error?.fieldErrors?.current_password)}
+            autoFocus
+            required
+          />
+          {error?.fieldErrors?.current_password && (
+            <span className="session-field-error">{error.fieldErrors.current_password}</span>
+          )}
+        </label>
+        <label className="session-field">
+          New password
+          <input
+            type="password"
+            value={newPassword}
+            onChange={(event) => setNewPassword(event.target.value)}
+            autoComplete="new-password"
+            aria-invalid={Boolean(error?.fieldErrors?.new_password)}
+            required
+          />
+          {error?.fieldErrors?.new_password && (
+            <span className="session-field-error">{error.fieldErrors.new_password}</span>
+          )}
+        </label>
+        <PasswordRules password={newPassword} email={email} />
+        <label className="session-field">
+          Confirm new password
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(event) => setConfirmation(event.target.value)}
+            autoComplete="new-password"
+            aria-invalid={mismatch}
+            required
+          />
+          {mismatch && <span className="session-field-error">Passwords do not match</span>}
+        </label>
+        <div className="session-actions">
+          <button className="session-btn session-secondary" onClick={onClose} type="button">
+            Cancel
+          </button>
+          <button className="session-btn session-primary" disabled={!canSubmit || isSubmitting} type="submit">
+            {isSubmitting ? 'Saving...' : 'Change password'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default ChangePasswordDialog;
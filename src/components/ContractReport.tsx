@@ -0,0 +1,51 @@
+import { useState, useSyncExternalStore } from 'react';
+import './ContractReport.css';
+import type { JSX } from 'react';
+import {
+  clearContractViolations,
+  getContractViolations,
+  subscribeContractViolations
+} from '../utils/contractReport';
+
+// Development-only list of API responses that did not match their schemas.
+function ContractReport(): JSX.Element | null {
+  const violations = useSyncExternalStore(subscribeContractViolations, getContractViolations);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (!import.meta.env.DEV || violations.length === 0) return null;
+
+  return (
+    <div className="contract-report" role="status">
+      <button className="contract-report-toggle" onClick={() => setIsExpanded((prev) => !prev)} type="button">
+        {violations.length} API contract violation{violations.length !== 1 ? 's' : ''}
+      </button>
+      {isExpanded && (
+        <div className="contract-report-panel">
+          <div className="contract-report-header">
+            <strong>Responses that did not match types.ts</strong>
+            <button onClick={clearContractViolations} type="button">
+              Clear
+            </button>
+          </div>
+          <ul className="contract-report-list">
+            {violations.map((violation) => (
+              <li key={violation.id}>
+                <div className="contract-report-endpoint">
+                  {violation.endpoint}
+                  <span>{new Date(violation.at).toLocaleTimeString()}</span>
+                </div>
+                <ul>
+                  {violation.issues.map((issue, index) => (
+                    <li key={index}>{issue}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ContractReport;
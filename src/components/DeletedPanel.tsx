@@ -1,17 +1,23 @@
-﻿import { useCallback, useEffect, useState } from 'react';
+﻿import { useCallback, useEffect, useMemo, useState } from 'react';
 import './DeletedPanel.css';
 import { useNotification } from './NotificationContext';
 import ConfirmDialog from './ConfirmDialog';
-import { API_BASE } from './config';
+import { useAppSelector, useCan } from '../store/hooks';
 import type { JSX } from 'react';
-import type { AuthHeadersFn, ConfirmDialogRequest, ConfirmDialogState, User } from '../types';
-import { formatApiErrorMessage, parseApiError } from '../utils/api';
+import type { ConfirmDialogRequest, ConfirmDialogState, User } from '../types';
+import { formatApiErrorMessage } from '../utils/api';
+import { isHandledApiError, toParsedApiError } from '../utils/apiClient';
+import {
+  useBulkPermanentlyDeleteUsersMutation,
+  useBulkRestoreUsersMutation,
+  useListDeletedUsersQuery,
+  usePermanentlyDeleteUserMutation,
+  useRestoreUserMutation
+} from '../store/usersApi';
 
 interface DeletedPanelProps {
   isOpen: boolean;
   onClose: () => void;
-  authHeaders: AuthHeadersFn;
-  onRestoreComplete?: () => void;
 }
 
 const defaultConfirmDialog: ConfirmDialogState = {
@@ -23,10 +29,12 @@ const defaultConfirmDialog: ConfirmDialogState = {
   onCancel: () => undefined
 };
 
-function DeletedPanel({ isOpen, onClose, authHeaders, onRestoreComplete }: DeletedPanelProps): JSX.Element | null {
+function DeletedPanel({ isOpen, onClose }: DeletedPanelProps): JSX.Element | null {
   const { showNotification } = useNotification();
-  const [deletedUsers, setDeletedUsers] = useState<User[]>([]);
-  const [loading, setLoading] = useState(false);
+  const capabilities = useAppSelector((state) => state.backend.capabilities);
+  const canRestore = useCan('users:restore');
+  const canBulkRestore = canRestore && capabilities.includes('bulkRestore');
+  const canPermanentDelete = useCan('users:purge') && capabilities.includes('permanentDelete');
   const [selectedDeleted, setSelectedDeleted] = useState<string[]>([]);
   const [bulkMode, setBulkMode] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState<ConfirmDialogState>(defaultConfirmDialog);
@@ -53,36 +61,26 @@ function DeletedPanel({ isOpen, onClose, authHeaders, onRestoreComplete }: Delet
     []
   );
 
-  const fetchDeletedUsers = useCallback(async () => {
-    setLoading(true);
-    try {
-      const res = await fetch(`${API_BASE}/api/users/deleted?limit=100`, {
-        headers: authHeaders()
-      });
-      if (!res.ok) {
-        const apiError = await parseApiError(res);
-        throw new Error(formatApiErrorMessage('Failed to fetch deleted users', apiError));
-      }
-
-      const data = (await res.json()) as { users?: User[] };
-      setDeletedUsers(data.users ?? []);
-    } catch (error) {
-      console.error('fetchDeletedUsers error:', error);
-      const message =
-        error instanceof Error && error.message
-          ? error.message
-          : 'Failed to fetch deleted users: Unknown error';
-      showNotification(message, 'error');
-    } finally {
-      setLoading(false);
-    }
-  }, [authHeaders, showNotification]);
+  const { data: deletedPage, error: deletedError, isFetching: loading } = useListDeletedUsersQuery(undefined, {
+    skip: !isOpen,
+    refetchOnMountOrArgChange: true
+  });
+  const deletedUsers = useMemo<User[]>(() => deletedPage?.users ?? [], [deletedPage]);
+  const [restoreUser] = useRestoreUserMutation();
+  const [bulkRestoreUsers] = useBulkRestoreUsersMutation();
+  const [permanentlyDeleteUser] = usePermanentlyDeleteUserMutation();
+  const [bulkPermanentlyDeleteUsers] = useBulkPermanentlyDeleteUsersMutation();
 
   useEffect(() => {
-    if (isOpen) {
-      void fetchDeletedUsers();
+    if (!deletedError) return;
+    console.error('fetchDeletedUsers error:', deletedError);
+    if (!isHandledApiError(deletedError)) {
+      showNotification(
+        formatApiErrorMessage('Failed to fetch deleted users', toParsedApiError(deletedError)),
+        'error'
+      );
     }
-  }, [fetchDeletedUsers, isOpen]);
+  }, [deletedError, showNotification]);
 
   useEffect(() => {
     function handleEscape(event: KeyboardEvent) {
@@ -123,34 +121,18 @@ function DeletedPanel({ isOpen, onClose, authHeaders, onRestoreComplete }: Delet
     if (!confirmed) return;
 
     try {
-      const res = await fetch(`${API_BASE}/api/users/bulk-restore`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...authHeaders()
-        },
-        body: JSON.stringify({ ids: selectedDeleted })
-      });
-
-      if (!res.ok) {
-        const apiError = await parseApiError(res);
-        throw new Error(formatApiErrorMessage('Failed to restore users', apiError));
-      }
+      await bulkRestoreUsers(selectedDeleted).unwrap();
 
       showNotification(`${selectedDeleted.length} user(s) restored!`, 'success');
       setSelectedDeleted([]);
       setBulkMode(false);
-      await fetchDeletedUsers();
-      onRestoreComplete?.();
     } catch (error) {
       console.error('Bulk restore error:', error);
-      const message =
-        error instanceof Error && error.message
-          ? error.message
-          : 'Failed to restore users: Unknown error';
-      showNotification(message, 'error');
+      if (!isHandledApiError(error)) {
+        showNotification(formatApiErrorMessage('Failed to restore users', toParsedApiError(error)), 'error');
+      }
     }
-  }, [authHeaders, fetchDeletedUsers, onRestoreComplete, requestConfirmation, selectedDeleted, showNotification]);
+  }, [bulkRestoreUsers, requestConfirmation, selectedDeleted, showNotification]);
 
   const bulkPermanentDelete = useCallback(async () => {
     if (selectedDeleted.length === 0) {
@@ -167,82 +149,50 @@ function DeletedPanel({ isOpen, onClose, authHeaders, onRestoreComplete }: Delet
     if (!confirmed) return;
 
     try {
-      const res = await fetch(`${API_BASE}/api/users/bulk-delete-permanent`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...authHeaders()
-        },
-        body: JSON.stringify({ ids: selectedDeleted })
-      });
-
-      if (!res.ok) {
-        const apiError = await parseApiError(res);
-        throw new Error(formatApiErrorMessage('Failed to delete users permanently', apiError));
-      }
+      await bulkPermanentlyDeleteUsers(selectedDeleted).unwrap();
 
       showNotification(`${selectedDeleted.length} user(s) deleted permanently.`, 'success');
       setSelectedDeleted([]);
       setBulkMode(false);
-      await fetchDeletedUsers();
-      onRestoreComplete?.();
     } catch (error) {
       console.error('Bulk permanent delete error:', error);
-      const message =
-        error instanceof Error && error.message
-          ? error.message
-          : 'Failed to delete users permanently: Unknown error';
-      showNotification(message, 'error');
+      if (!isHandledApiError(error)) {
+        showNotification(
+          formatApiErrorMessage('Failed to delete users permanently', toParsedApiError(error)),
+          'error'
+        );
+      }
     }
-  }, [authHeaders, fetchDeletedUsers, onRestoreComplete, requestConfirmation, selectedDeleted, showNotification]);
+  }, [bulkPermanentlyDeleteUsers, requestConfirmation, selectedDeleted, showNotification]);
 
   const handleRestore = useCallback(async (userId: string) => {
     try {
-      const res = await fetch(`${API_BASE}/api/users/${userId}/restore`, {
-        method: 'POST',
-        headers: authHeaders()
-      });
-      if (!res.ok) {
-        const apiError = await parseApiError(res);
-        throw new Error(formatApiErrorMessage('Failed to restore user', apiError));
-      }
+      await restoreUser(userId).unwrap();
 
       showNotification('User restored successfully', 'success');
-      await fetchDeletedUsers();
-      onRestoreComplete?.();
     } catch (error) {
       console.error('Restore error:', error);
-      const message =
-        error instanceof Error && error.message
-          ? error.message
-          : 'Failed to restore user: Unknown error';
-      showNotification(message, 'error');
+      if (!isHandledApiError(error)) {
+        showNotification(formatApiErrorMessage('Failed to restore user', toParsedApiError(error)), 'error');
+      }
     }
-  }, [authHeaders, fetchDeletedUsers, onRestoreComplete, showNotification]);
+  }, [restoreUser, showNotification]);
 
   const handlePermanentDelete = useCallback(async (userId: string) => {
     try {
-      const res = await fetch(`${API_BASE}/api/users/${userId}/permanent`, {
-        method: 'DELETE',
-        headers: authHeaders()
-      });
-      if (!res.ok) {
-        const apiError = await parseApiError(res);
-        throw new Error(formatApiErrorMessage('Failed to delete user permanently', apiError));
-      }
+      await permanentlyDeleteUser(userId).unwrap();
 
       showNotification('User permanently deleted', 'success');
-      await fetchDeletedUsers();
-      onRestoreComplete?.();
     } catch (error) {
       console.error('Permanent delete error:', error);
-      const message =
-        error instanceof Error && error.message
-          ? error.message
-          : 'Failed to delete user permanently: Unknown error';
-      showNotification(message, 'error');
+      if (!isHandledApiError(error)) {
+        showNotification(
+          formatApiErrorMessage('Failed to delete user permanently', toParsedApiError(error)),
+          'error'
+        );
+      }
     }
-  }, [authHeaders, fetchDeletedUsers, onRestoreComplete, showNotification]);
+  }, [permanentlyDeleteUser, showNotification]);
 
   if (!isOpen) return null;
 
@@ -256,18 +206,20 @@ function DeletedPanel({ isOpen, onClose, authHeaders, onRestoreComplete }: Delet
 
           <h2 className="deleted-panel-title">Deleted Users</h2>
 
-          <div className="deleted-panel-actions">
-            <button
-              className={`bulk-mode-toggle ${bulkMode ? 'active' : ''}`}
-              onClick={() => {
-                setBulkMode((prev) => !prev);
-                setSelectedDeleted([]);
-              }}
-              type="button"
-            >
-              {bulkMode ? 'Exit Bulk Mode' : 'Bulk Select'}
-            </button>
-          </div>
+          {(canBulkRestore || canPermanentDelete) && (
+            <div className="deleted-panel-actions">
+              <button
+                className={`bulk-mode-toggle ${bulkMode ? 'active' : ''}`}
+                onClick={() => {
+                  setBulkMode((prev) => !prev);
+                  setSelectedDeleted([]);
+                }}
+                type="button"
+              >
+                {bulkMode ? 'Exit Bulk Mode' : 'Bulk Select'}
+              </button>
+            </div>
+          )}
 
           {bulkMode && (
             <div className="bulk-action-bar-deleted">
@@ -277,26 +229,30 @@ function DeletedPanel({ isOpen, onClose, authHeaders, onRestoreComplete }: Delet
               <button onClick={deselectAllDeleted} type="button">
                 Deselect All
               </button>
-              <button
-                onClick={() => {
-                  void bulkRestore();
-                }}
-                disabled={selectedDeleted.length === 0}
-                className="restore-btn"
-                type="button"
-              >
-                Restore Selected ({selectedDeleted.length})
-              </button>
-              <button
-                onClick={() => {
-                  void bulkPermanentDelete();
-                }}
-                disabled={selectedDeleted.length === 0}
-                className="permanent-delete-btn"
-                type="button"
-              >
-                Delete Permanently ({selectedDeleted.length})
-              </button>
+              {canBulkRestore && (
+                <button
+                  onClick={() => {
+                    void bulkRestore();
+                  }}
+                  disabled={selectedDeleted.length === 0}
+                  className="restore-btn"
+                  type="button"
+                >
+                  Restore Selected ({selectedDeleted.length})
+                </button>
+              )}
+              {canPermanentDelete && (
+                <button
+                  onClick={() => {
+                    void bulkPermanentDelete();
+                  }}
+                  disabled={selectedDeleted.length === 0}
+                  className="permanent-delete-btn"
+                  type="button"
+                >
+                  Delete Permanently ({selectedDeleted.length})
+                </button>
+              )}
             </div>
           )}
 
@@ -334,14 +290,18 @@ function DeletedPanel({ isOpen, onClose, authHeaders, onRestoreComplete }: Delet
                     <p>{user.department || 'N/A'}</p>
                   </div>
 
-                  {!bulkMode && (
+                  {!bulkMode && (canRestore || canPermanentDelete) && (
                     <div className="deleted-user-actions">
-                      <button onClick={() => handleRestore(user._id)} type="button">
-                        Restore
-                      </button>
-                      <button onClick={() => handlePermanentDelete(user._id)} type="button">
-                        Delete
-                      </button>
+                      {canRestore && (
+                        <button onClick={() => handleRestore(user._id)} type="button">
+                          Restore
+                        </button>
+                      )}
+                      {canPermanentDelete && (
+                        <button onClick={() => handlePermanentDelete(user._id)} type="button">
+                          Delete
+                        </button>
+                      )}
                     </div>
                   )}
                 </div>
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { JSX } from 'react';
+import './FacetFilter.css';
+import type { FacetCount } from '../types';
+
+const SEARCHABLE_FROM = 8;
+
+interface FacetFilterProps {
+  label: string;
+  allLabel: string;
+  selected: string[];
+  onChange: (values: string[]) => void;
+  // Values to offer when the backend sends no counts.
+  values: string[];
+  counts: FacetCount[] | null;
+}
+
+// Dropdown checklist for one facet. Selected values stay listed even when the
+// other filters leave them no matches, so they can still be unticked.
+function FacetFilter({ label, allLabel, selected, onChange, values, counts }: FacetFilterProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setSearch('');
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) close();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') close();
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [close, isOpen]);
+
+  const options: Array<{ value: string; count?: number }> = counts ?? values.map((value) => ({ value }));
+  const missing = selected
+    .filter((value) => !options.some((option) => option.value === value))
+    .map((value) => ({ value, count: counts ? 0 : undefined }));
+  const needle = search.trim().toLowerCase();
+  const shown = [...missing, ...options].filter((option) => !needle || option.value.toLowerCase().includes(needle));
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value]);
+  };
+
+  const summary = selected.length === 0 ? allLabel : selected.length === 1 ? selected[0] : `${selected.length} selected`;
+
+  return (
+    <div className="dept-filter facet-filter" ref={containerRef}>
+      <span className="dept-title">{label}:</span>
+      <button
+        className="facet-filter-toggle"
+        onClick={() => (isOpen ? close() : setIsOpen(true))}
+        aria-expanded={isOpen}
+        aria-label={`${label}: ${summary}`}
+        type="button"
+      >
+        {summary}
+      </button>
+
+      {isOpen && (
+        <div className="facet-filter-panel" role="dialog" aria-label={`${label} filter`}>
+          {options.length + missing.length >= SEARCHABLE_FROM && (
+            <input
+              type="text"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder={`Find a ${label.toLowerCase()}`}
+              aria-label={`Find a ${label.toLowerCase()}`}
+              autoFocus
+            />
+          )}
+          <ul className="facet-filter-list">
+            {shown.map((option) => (
+              <li key={option.value}>
+                <label className={option.count === 0 ? 'facet-filter-option empty' : 'facet-filter-option'}>
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(option.value)}
+                    onChange={() => toggle(option.value)}
+                  />
+                  <span className="facet-filter-value">{option.value}</span>
+                  {option.count !== undefined && <span className="facet-filter-count">{option.count}</span>}
+                </label>
+              </li>
+            ))}
+            {shown.length === 0 && <li className="facet-filter-empty">No matches</li>}
+          </ul>
+          {selected.length > 0 && (
+            <button className="facet-filter-clear" onClick={() => onChange([])} type="button">
+              Clear {label.toLowerCase()}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FacetFilter;
@@ -0,0 +1,60 @@
+import type { JSX } from 'react';
+import { Fragment } from 'react';
+import './FilterChips.css';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { setAdvancedQuery } from '../store/usersSlice';
+import { EMPTY_QUERY, describeCondition } from '../utils/advancedQuery';
+
+// The applied advanced filter, one removable chip per condition.
+function FilterChips(): JSX.Element | null {
+  const dispatch = useAppDispatch();
+  const isSupported = useAppSelector((state) => state.backend.capabilities.includes('advancedFilters'));
+  const query = useAppSelector((state) => state.users.advancedQuery);
+
+  if (!isSupported || query.groups.length === 0) return null;
+
+  const removeCondition = (groupIndex: number, conditionIndex: number) => {
+    const groups = query.groups
+      .map((group, index) =>
+        index === groupIndex
+          ? { ...group, conditions: group.conditions.filter((_, position) => position !== conditionIndex) }
+          : group
+      )
+      .filter((group) => group.conditions.length > 0);
+    dispatch(setAdvancedQuery({ ...query, groups }));
+  };
+
+  const showGroups = query.groups.length > 1;
+
+  return (
+    <div className="filter-chips" aria-label="Active filters">
+      {query.groups.map((group, groupIndex) => (
+        <Fragment key={groupIndex}>
+          {groupIndex > 0 && <span className="filter-chips-join">{query.combinator}</span>}
+          <span className={showGroups ? 'filter-chips-group' : 'filter-chips-plain'}>
+            {group.conditions.map((condition, conditionIndex) => (
+              <Fragment key={conditionIndex}>
+                {conditionIndex > 0 && <span className="filter-chips-join">{group.combinator}</span>}
+                <span className="filter-chip">
+                  {describeCondition(condition)}
+                  <button
+                    onClick={() => removeCondition(groupIndex, conditionIndex)}
+                    aria-label={`Remove filter: ${describeCondition(condition)}`}
+                    type="button"
+                  >
+                    ✕
+                  </button>
+                </span>
+              </Fragment>
+            ))}
+          </span>
+        </Fragment>
+      ))}
+      <button className="filter-chips-clear" onClick={() => dispatch(setAdvancedQuery(EMPTY_QUERY))} type="button">
+        Clear all
+      </button>
+    </div>
+  );
+}
+
+export default FilterChips;
@@ -0,0 +1,30 @@
+import type { JSX } from 'react';
+import './Highlight.css';
+import { findMatches } from '../utils/searchHighlight';
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+// Text with the parts that match the search marked.
+function Highlight({ text, terms }: HighlightProps): JSX.Element {
+  const ranges = findMatches(text, terms);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(<span key={`text-${start}`}>{text.slice(cursor, start)}</span>);
+    parts.push(
+      <mark key={`match-${start}`} className="search-match">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(<span key="rest">{text.slice(cursor)}</span>);
+  return <>{parts}</>;
+}
+
+export default Highlight;
@@ -1,6 +1,7 @@
 ﻿import React, { useState } from 'react';
 import type { ImportPreview } from '../types';
 import './ImportReviewModal.css';
+import { useCan } from '../store/hooks';
 import type { JSX } from 'react';
 
 interface ImportReviewModalProps {
@@ -17,6 +18,7 @@ function ImportReviewModal({
   onClose
 }: ImportReviewModalProps): JSX.Element | null {
   const [expandedErrors, setExpandedErrors] = useState(false);
+  const canImport = useCan('users:import');
 
   if (!importData) return null;
 
@@ -113,6 +115,11 @@ function ImportReviewModal({
             ) : (
               <p>All users are valid and ready to import.</p>
             )}
+            {!canImport && (
+              <p>
+                <strong>Your role can preview imports but not run them.</strong>
+              </p>
+            )}
           </div>
         </div>
 
@@ -124,7 +131,7 @@ function ImportReviewModal({
           <button
             className="btn-confirm"
             onClick={onConfirm}
-            disabled={valid_users === 0}
+            disabled={valid_users === 0 || !canImport}
             type="button"
           >
             Import {valid_users} Valid User{valid_users !== 1 ? 's' : ''}
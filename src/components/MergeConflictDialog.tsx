@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import './MergeConflictDialog.css';
+import type { JSX } from 'react';
+import type { User } from '../types';
+
+export type MergeChoice = 'mine' | 'theirs';
+
+interface MergeConflictDialogProps {
+  fields: string[];
+  base: User;
+  mine: Record<string, string>;
+  theirs: User;
+  onResolve: (values: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+function valueOf(source: Record<string, unknown>, field: string): string {
+  const value = source[field];
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function defaultChoice(base: string, mine: string, theirs: string): MergeChoice {
+  // Keep whichever side actually changed the field; when both did, start from your edit.
+  return mine === base && theirs !== base ? 'theirs' : 'mine';
+}
+
+function MergeConflictDialog({
+  fields,
+  base,
+  mine,
+  theirs,
+  onResolve,
+  onCancel
+}: MergeConflictDialogProps): JSX.Element {
+  const rows = fields
+    .map((field) => ({
+      field,
+      base: valueOf(base, field),
+      mine: valueOf(mine, field),
+      theirs: valueOf(theirs, field)
+    }))
+    .filter((row) => row.mine !== row.base || row.theirs !== row.base);
+
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>(() =>
+    Object.fromEntries(rows.map((row) => [row.field, defaultChoice(row.base, row.mine, row.theirs)]))
+  );
+
+  const handleResolve = () => {
+    const values: Record<string, string> = {};
+    fields.forEach((field) => {
+      values[field] = choices[field] === 'mine' ? valueOf(mine, field) : valueOf(theirs, field);
+    });
+    onResolve(values);
+  };
+
+  const changedBy = typeof theirs.updatedBy === 'string' && theirs.updatedBy ? theirs.updatedBy : 'someone else';
+
+  return (
+    <div className="merge-overlay">
+      <div className="merge-dialog" role="dialog" aria-labelledby="merge-title">
+        <div className="merge-header">
+          <h3 id="merge-title">
+            {theirs.firstName} {theirs.lastName} was changed while you were editing
+          </h3>
+          <p>
+            Updated by {changedBy}
+            {theirs.updatedAt ? ` at ${new Date(theirs.updatedAt).toLocaleString()}` : ''}. Pick which
+            value to keep for each field.
+          </p>
+        </div>
+
+        <table className="merge-table">
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>Original</th>
+              <th>Yours</th>
+              <th>Theirs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const isConflict = row.mine !== row.base && row.theirs !== row.base && row.mine !== row.theirs;
+              return (
+                <tr key={row.field} className={isConflict ? 'merge-conflict' : ''}>
+                  <td className="merge-field">{row.field}</td>
+                  <td className="merge-original">{row.base || '—'}</td>
+                  {(['mine', 'theirs'] as const).map((side) => (
+                    <td key={side}>
+                      <label className={`merge-option ${choices[row.field] === side ? 'selected' : ''}`}>
+                        <input
+                          type="radio"
+                          name={`merge-${row.field}`}
+                          checked={choices[row.field] === side}
+                          onChange={() => setChoices((prev) => ({ ...prev, [row.field]: side }))}
+                        />
+                        {row[side] || '—'}
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="merge-footer">
+          <button className="merge-btn merge-cancel" onClick={onCancel} type="button">
+            Discard my changes
+          </button>
+          <button className="merge-btn merge-save" onClick={handleResolve} type="button">
+            Save merged version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default MergeConflictDialog;
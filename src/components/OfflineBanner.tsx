@@ -0,0 +1,40 @@
+import './OfflineBanner.css';
+import type { JSX } from 'react';
+
+interface OfflineBannerProps {
+  isOffline: boolean;
+  queuedCount: number;
+  cachedAt: string | null;
+}
+
+function OfflineBanner({ isOffline, queuedCount, cachedAt }: OfflineBannerProps): JSX.Element | null {
+  if (!isOffline && queuedCount === 0) return null;
+
+  const queuedText =
+    queuedCount > 0
+      ? `${queuedCount} change${queuedCount !== 1 ? 's' : ''} will sync when the connection returns.`
+      : '';
+
+  return (
+    <div className={`offline-banner ${isOffline ? 'offline' : 'syncing'}`} role="status">
+      <div className="offline-banner-icon">{isOffline ? 'OFF' : 'SYNC'}</div>
+      <div className="offline-banner-text">
+        {isOffline ? (
+          <>
+            <strong>You are offline.</strong>{' '}
+            {cachedAt
+              ? `Showing the directory as of ${new Date(cachedAt).toLocaleString()}. `
+              : 'No saved copy of this view is available. '}
+            {queuedText}
+          </>
+        ) : (
+          <>
+            <strong>Back online.</strong> Syncing: {queuedText}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default OfflineBanner;
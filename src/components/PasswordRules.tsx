@@ -0,0 +1,27 @@
+import type { JSX } from 'react';
+import './PasswordRules.css';
+import { getPasswordRules } from '../auth/passwordRules';
+
+interface PasswordRulesProps {
+  password: string;
+  email?: string | null;
+}
+
+// Live checklist under a new-password field.
+function PasswordRules({ password, email }: PasswordRulesProps): JSX.Element {
+  return (
+    <ul className="password-rules" aria-label="Password requirements">
+      {getPasswordRules(email).map((rule) => {
+        const met = rule.test(password);
+        return (
+          <li key={rule.id} className={met ? 'password-rule met' : 'password-rule'}>
+            <span aria-hidden="true">{met ? '✓' : '•'}</span> {rule.label}
+            <span className="visually-hidden">{met ? ' (met)' : ' (not met)'}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default PasswordRules;
@@ -0,0 +1,17 @@
+import type { JSX, ReactNode } from 'react';
+import { useCan } from '../store/hooks';
+import type { Permission } from '../types';
+
+interface PermissionGateProps {
+  permission: Permission;
+  children: ReactNode;
+  // Rendered instead of the children when the role lacks the permission.
+  fallback?: ReactNode;
+}
+
+function PermissionGate({ permission, children, fallback = null }: PermissionGateProps): JSX.Element {
+  const allowed = useCan(permission);
+  return <>{allowed ? children : fallback}</>;
+}
+
+export default PermissionGate;
@@ -4,31 +4,39 @@ import type { JSX } from 'react';
 
 interface RateLimitToastProps {
   retryAfter: number;
+  resumeAt: number;
+  pendingCount: number;
   onClose: () => void;
 }
 
-function RateLimitToast({ retryAfter, onClose }: RateLimitToastProps): JSX.Element {
-  const [timeLeft, setTimeLeft] = useState(retryAfter);
+function secondsUntil(resumeAt: number): number {
+  return Math.max(0, Math.ceil((resumeAt - Date.now()) / 1000));
+}
 
-  useEffect(() => {
-    if (timeLeft <= 0) {
-      onClose();
-      return;
-    }
+function RateLimitToast({ retryAfter, resumeAt, pendingCount, onClose }: RateLimitToastProps): JSX.Element {
+  const [timeLeft, setTimeLeft] = useState(() => secondsUntil(resumeAt));
 
+  useEffect(() => {
+    setTimeLeft(secondsUntil(resumeAt));
     const timer = window.setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev <= 1) {
-          window.clearInterval(timer);
-          onClose();
-          return 0;
-        }
-        return prev - 1;
-      });
+      setTimeLeft(secondsUntil(resumeAt));
     }, 1000);
 
     return () => window.clearInterval(timer);
-  }, [timeLeft, onClose]);
+  }, [resumeAt]);
+
+  useEffect(() => {
+    // Queued calls close the toast themselves once they have been sent.
+    if (timeLeft <= 0 && pendingCount === 0) {
+      onClose();
+    }
+  }, [timeLeft, pendingCount, onClose]);
+
+  const resumeTime = new Date(resumeAt).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
 
   return (
     <div className="rate-limit-toast">
@@ -36,7 +44,13 @@ function RateLimitToast({ retryAfter, onClose }: RateLimitToastProps): JSX.Eleme
         <div className="rate-limit-icon">RATE</div>
         <div className="rate-limit-text">
           <h4>Rate Limit Exceeded</h4>
-          <p>Too many requests. Please wait...</p>
+          {pendingCount > 0 ? (
+            <p>
+              {pendingCount} {pendingCount === 1 ? 'action' : 'actions'} pending. Resuming at {resumeTime}.
+            </p>
+          ) : (
+            <p>Too many requests. Please wait...</p>
+          )}
         </div>
         <div className="rate-limit-timer">
           <div className="countdown-circle">
@@ -47,7 +61,7 @@ function RateLimitToast({ retryAfter, onClose }: RateLimitToastProps): JSX.Eleme
               />
               <path
                 className="countdown-progress"
-                strokeDasharray={`${(timeLeft / retryAfter) * 100}, 100`}
+                strokeDasharray={`${retryAfter > 0 ? (Math.min(timeLeft, retryAfter) / retryAfter) * 100 : 0}, 100`}
                 d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831"
               />
             </svg>
@@ -1,18 +1,22 @@
 ﻿import type { RecentUser } from '../types';
 import type { JSX } from 'react';
+import Highlight from './Highlight';
 
 interface RecentlyViewedProps {
   recentUsers: RecentUser[];
   onUserClick: (user: RecentUser) => void;
   onClear: () => void;
   isCreateFormOpen: boolean;
+  // Folded search terms, see utils/searchHighlight.
+  highlightTerms?: string[];
 }
 
 function RecentlyViewed({
   recentUsers,
   onUserClick,
   onClear,
-  isCreateFormOpen
+  isCreateFormOpen,
+  highlightTerms = []
 }: RecentlyViewedProps): JSX.Element {
   const handleCardClick = (user: RecentUser) => {
     if (isCreateFormOpen) return;
@@ -70,10 +74,13 @@ function RecentlyViewed({
               />
               <div className="meta">
                 <div className="name">
-                  {`${user.firstName ?? ''}${user.lastName ? ` ${user.lastName}` : ''}`.trim()}
+                  <Highlight
+                    text={`${user.firstName ?? ''}${user.lastName ? ` ${user.lastName}` : ''}`.trim()}
+                    terms={highlightTerms}
+                  />
                 </div>
                 <div className="sub" style={{ fontSize: '0.85rem', color: '#555' }}>
-                  {user.email ?? ''}
+                  <Highlight text={user.email ?? ''} terms={highlightTerms} />
                 </div>
               </div>
             </div>
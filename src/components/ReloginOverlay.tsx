@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import type { FormEvent, JSX } from 'react';
+import './SessionDialogs.css';
+import { toMfaChallenge, toMfaProof } from '../auth/mfa';
+import { startOidcSignIn } from '../auth/oidc';
+import { isSessionRemembered } from '../auth/session';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { signIn } from '../store/authSlice';
+import { getActiveBackend } from './config';
+import { formatApiErrorMessage } from '../utils/api';
+import { apiClient, toParsedApiError } from '../utils/apiClient';
+import type { LoginResponse, MfaChallenge } from '../types';
+
+interface ReloginOverlayProps {
+  onSignedIn: () => void;
+  onSignOut: () => void;
+}
+
+// Shown over the app instead of reloading it, so open create/edit forms survive an expired session.
+function ReloginOverlay({ onSignedIn, onSignOut }: ReloginOverlayProps): JSX.Element {
+  const dispatch = useAppDispatch();
+  // Fixed to the expired session's admin: open forms and pending saves belong to that account.
+  const email = useAppSelector((state) => state.auth.email) ?? '';
+  const [password, setPassword] = useState('');
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const oidc = getActiveBackend().oidc;
+
+  // Leaves the page for the identity provider, so unlike the password form it cannot keep open forms.
+  const handleSingleSignOn = async () => {
+    if (!oidc) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await startOidcSignIn(oidc);
+    } catch (ssoError) {
+      setError(formatApiErrorMessage('', toParsedApiError(ssoError)));
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      let data: LoginResponse;
+      if (mfaChallenge) {
+        data = await apiClient.verifyMfa(mfaChallenge.token, toMfaProof(mfaCode));
+      } else {
+        data = await apiClient.login(email, password.trim());
+        const challenge = toMfaChallenge(email, data);
+        if (challenge) {
+          if (!challenge.enrolled) {
+            throw new Error('Two-step verification is not set up. Sign out and sign in again to set it up.');
+          }
+          setMfaChallenge(challenge);
+          return;
+        }
+      }
+      if (!data.access_token && getActiveBackend().authStyle === 'bearer') {
+        throw new Error('No token received from server');
+      }
+      dispatch(signIn(email, data, { remember: isSessionRemembered() }));
+      onSignedIn();
+    } catch (loginError) {
+      setError(formatApiErrorMessage('', toParsedApiError(loginError)));
+      setMfaCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="session-overlay">
+      <form className="session-dialog" onSubmit={handleSubmit} aria-labelledby="relogin-title">
+        <h3 id="relogin-title">Session expired</h3>
+        <p>Sign in again to continue. Your unsaved changes are kept; to switch accounts, sign out.</p>
+        {mfaChallenge ? (
+          <label className="session-field">
+            Authentication or recovery code
+            <input
+              value={mfaCode}
+              onChange={(event) => setMfaCode(event.target.value)}
+              autoComplete="one-time-code"
+              autoFocus
+              required
+            />
+          </label>
+        ) : (
+          <>
+            <label className="session-field">
+              Admin ID
+              <input type="email" value={email} readOnly />
+            </label>
+            <label className="session-field">
+              Password
+              <input
+                type="password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                autoFocus
+                required
+              />
+            </label>
+          </>
+        )}
+        {error && <p className="session-error">{error}</p>}
+        <div className="session-actions">
+          <button className="session-btn session-secondary" onClick={onSignOut} type="button">
+            Sign out
+          </button>
+          {oidc && !mfaChallenge && (
+            <button
+              className="session-btn session-secondary"
+              disabled={isSubmitting}
+              onClick={handleSingleSignOn}
+              title="Reloads the page after signing in"
+              type="button"
+            >
+              {oidc.label}
+            </button>
+          )}
+          <button className="session-btn session-primary" disabled={isSubmitting} type="submit">
+            {isSubmitting ? 'Signing in...' : 'Sign in'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default ReloginOverlay;
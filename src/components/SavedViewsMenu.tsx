@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ChangeEvent, FormEvent, JSX } from 'react';
+import './SavedViewsMenu.css';
+import { useNotification } from './NotificationContext';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+  deleteView,
+  loadSavedViews,
+  renameView,
+  saveView,
+  setDefaultView,
+  toListView,
+  viewMatches
+} from '../store/savedViewsSlice';
+import { applyListView } from '../store/usersSlice';
+import type { SavedView, SavedViewFilters } from '../types';
+import { formatApiErrorMessage } from '../utils/api';
+import { isHandledApiError, toParsedApiError } from '../utils/apiClient';
+
+// Dropdown of the admin's saved filter views, plus a panel to save, rename,
+// delete and pick the default one.
+function SavedViewsMenu(): JSX.Element {
+  const dispatch = useAppDispatch();
+  const { showNotification } = useNotification();
+  const { items: views, storage } = useAppSelector((state) => state.savedViews);
+  const { searchQuery, genderFilter, departmentFilters, cityFilters, sortKeys, advancedQuery } = useAppSelector(
+    (state) => state.users
+  );
+  const [isManaging, setIsManaging] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const filters = useMemo<SavedViewFilters>(
+    () => ({ searchQuery, genderFilter, departmentFilters, cityFilters, sortKeys, advancedQuery }),
+    [advancedQuery, cityFilters, departmentFilters, genderFilter, searchQuery, sortKeys]
+  );
+  const activeView = views.find((view) => viewMatches(view, filters));
+
+  const closePanel = useCallback(() => {
+    setIsManaging(false);
+    setEditing(null);
+    setPendingDeleteId(null);
+  }, []);
+
+  useEffect(() => {
+    if (!isManaging) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) closePanel();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') closePanel();
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [closePanel, isManaging]);
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string): Promise<boolean> => {
+    setIsBusy(true);
+    try {
+      await action();
+      showNotification(success, 'success');
+      return true;
+    } catch (error) {
+      if (!isHandledApiError(error)) {
+        showNotification(formatApiErrorMessage(failure, toParsedApiError(error)), 'error');
+      }
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const retryLoad = async () => {
+    setIsBusy(true);
+    await dispatch(loadSavedViews());
+    setIsBusy(false);
+  };
+
+  const openPanel = () => {
+    setIsManaging(true);
+    if (storage === 'unreachable') void retryLoad();
+  };
+
+  const applyView = (view: SavedView) => {
+    dispatch(applyListView(toListView(view)));
+  };
+
+  const handleSelect = (event: ChangeEvent<HTMLSelectElement>) => {
+    const view = views.find((candidate) => candidate.id === event.target.value);
+    if (view) applyView(view);
+  };
+
+  const handleSave = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const name = newName.trim();
+    const saved = await run(() => dispatch(saveView(name, filters)), `Saved view "${name}".`, 'Could not save the view');
+    if (saved) setNewName('');
+  };
+
+  const handleRename = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editing) return;
+    const renamed = await run(
+      () => dispatch(renameView(editing.id, editing.name)),
+      'View renamed.',
+      'Could not rename the view'
+    );
+    if (renamed) setEditing(null);
+  };
+
+  const handleToggleDefault = (view: SavedView) => {
+    void run(
+      () => dispatch(setDefaultView(view.id, !view.isDefault)),
+      view.isDefault ? `"${view.name}" is no longer the default view.` : `"${view.name}" opens after sign-in.`,
+      'Could not change the default view'
+    );
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    await run(() => dispatch(deleteView(view.id)), `Deleted view "${view.name}".`, 'Could not delete the view');
+    setPendingDeleteId(null);
+  };
+
+  return (
+    <div className="dept-filter saved-views" ref={containerRef}>
+      <label htmlFor="saved-view-select" className="dept-title">
+        View:
+      </label>
+      <select id="saved-view-select" value={activeView?.id ?? ''} onChange={handleSelect}>
+        <option value="" disabled={Boolean(activeView)}>
+          {views.length > 0 ? 'Unsaved filters' : 'No saved views'}
+        </option>
+        {views.map((view) => (
+          <option key={view.id} value={view.id}>
+            {view.isDefault ? `★ ${view.name}` : view.name}
+          </option>
+        ))}
+      </select>
+      <button
+        className="saved-views-manage"
+        onClick={() => (isManaging ? closePanel() : openPanel())}
+        aria-expanded={isManaging}
+        type="button"
+      >
+        Manage
+      </button>
+
+      {isManaging && (
+        <div className="saved-views-panel" role="dialog" aria-label="Saved views">
+          <form className="saved-views-row" onSubmit={handleSave}>
+            <input
+              type="text"
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              placeholder="Name the current filters"
+              aria-label="View name"
+            />
+            <button className="saved-views-action primary" disabled={!newName.trim() || isBusy} type="submit">
+              Save
+            </button>
+          </form>
+
+          {views.length === 0 && <p className="saved-views-empty">No saved views yet.</p>}
+
+          <ul className="saved-views-list">
+            {views.map((view) =>
+              editing?.id === view.id ? (
+                <li key={view.id}>
+                  <form className="saved-views-row" onSubmit={handleRename}>
+                    <input
+                      type="text"
+                      value={editing.name}
+                      onChange={(event) => setEditing({ id: view.id, name: event.target.value })}
+                      aria-label={`New name for ${view.name}`}
+                      autoFocus
+                    />
+                    <button className="saved-views-action primary" disabled={!editing.name.trim() || isBusy} type="submit">
+                      Save
+                    </button>
+                    <button className="saved-views-action" onClick={() => setEditing(null)} type="button">
+                      Cancel
+                    </button>
+                  </form>
+                </li>
+              ) : (
+                <li key={view.id} className="saved-views-row">
+                  <button className="saved-views-name" onClick={() => applyView(view)} type="button">
+                    {view.isDefault && <span aria-label="Default view">★ </span>}
+                    {view.name}
+                  </button>
+                  {pendingDeleteId === view.id ? (
+                    <>
+                      <button
+                        className="saved-views-action danger"
+                        onClick={() => void handleDelete(view)}
+                        disabled={isBusy}
+                        type="button"
+                      >
+                        Delete
+                      </button>
+                      <button className="saved-views-action" onClick={() => setPendingDeleteId(null)} type="button">
+                        Keep
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        className="saved-views-action"
+                        onClick={() => handleToggleDefault(view)}
+                        disabled={isBusy}
+                        title={view.isDefault ? 'Stop opening this view after sign-in' : 'Open this view after sign-in'}
+                        type="button"
+                      >
+                        {view.isDefault ? 'Unset default' : 'Make default'}
+                      </button>
+                      <button
+                        className="saved-views-action"
+                        onClick={() => setEditing({ id: view.id, name: view.name })}
+                        type="button"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        className="saved-views-action danger"
+                        onClick={() => setPendingDeleteId(view.id)}
+                        aria-label={`Delete ${view.name}`}
+                        type="button"
+                      >
+                        ✕
+                      </button>
+                    </>
+                  )}
+                </li>
+              )
+            )}
+          </ul>
+
+          {storage === 'unreachable' ? (
+            <p className="saved-views-note">
+              The server could not be reached, so these are the views last loaded from it.{' '}
+              <button className="saved-views-action" onClick={() => void retryLoad()} disabled={isBusy} type="button">
+                Retry
+              </button>
+            </p>
+          ) : (
+            <p className="saved-views-note">
+              {storage === 'server' ? 'Synced to your account on this server.' : 'Stored in this browser only.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SavedViewsMenu;
@@ -0,0 +1,233 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+import type { ChangeEvent, JSX, KeyboardEvent, ReactNode } from 'react';
+import './SearchBox.css';
+import { useAppSelector } from '../store/hooks';
+import {
+  GENDER_VALUES,
+  SEARCH_FIELD_NAMES,
+  STATUS_VALUES,
+  formatValue,
+  parseSearch,
+  type SearchField,
+  type SearchToken
+} from '../utils/searchSyntax';
+
+const MAX_SUGGESTIONS = 8;
+
+interface Suggestion {
+  label: string;
+  // Replaces the whole token under the caret.
+  text: string;
+}
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Enter while no suggestion is picked.
+  onSubmit: () => void;
+  departments: string[];
+  cities: string[];
+}
+
+function valuesFor(field: SearchField, departments: string[], cities: string[]): readonly string[] {
+  if (field === 'department') return departments;
+  if (field === 'city') return cities;
+  if (field === 'gender') return GENDER_VALUES;
+  return STATUS_VALUES;
+}
+
+function suggest(token: SearchToken | undefined, departments: string[], cities: string[]): Suggestion[] {
+  if (!token) return [];
+  const minus = token.negated ? '-' : '';
+  const typed = token.value.toLowerCase();
+  if (token.fieldName === undefined) {
+    if (token.quoted || !typed) return [];
+    return SEARCH_FIELD_NAMES.filter(({ name }) => name.startsWith(typed)).map(({ name }) => ({
+      label: `${name}:`,
+      text: `${minus}${name}:`
+    }));
+  }
+  if (!token.field) return [];
+  return valuesFor(token.field, departments, cities)
+    .filter((value) => value.toLowerCase().includes(typed) && value.toLowerCase() !== typed)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((value) => ({ label: value, text: `${minus}${token.fieldName}:${formatValue(value)} ` }));
+}
+
+function highlight(value: string, tokens: SearchToken[], pending: SearchToken | undefined): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  tokens.forEach((token, index) => {
+    if (token.start > cursor) parts.push(<span key={`gap-${index}`}>{value.slice(cursor, token.start)}</span>);
+    const text = value.slice(token.start, token.end);
+    const className = [
+      'search-token',
+      token.negated && 'negated',
+      token.error && token !== pending && 'error'
+    ]
+      .filter(Boolean)
+      .join(' ');
+    const nameLength = token.fieldName === undefined ? 0 : Number(token.negated) + token.fieldName.length + 1;
+    parts.push(
+      <span key={index} className={className}>
+        {nameLength > 0 && <span className="search-token-name">{text.slice(0, nameLength)}</span>}
+        {text.slice(nameLength)}
+      </span>
+    );
+    cursor = token.end;
+  });
+  if (cursor < value.length) parts.push(<span key="rest">{value.slice(cursor)}</span>);
+  return parts;
+}
+
+// The header search input. Understands the qualifier syntax of utils/searchSyntax,
+// colours it in place, underlines mistakes and completes field names and values.
+function SearchBox({ value, onChange, onSubmit, departments, cities }: SearchBoxProps): JSX.Element {
+  const extended = useAppSelector((state) => state.backend.capabilities.includes('searchQualifiers'));
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [dismissedAt, setDismissedAt] = useState<string | null>(null);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const mirrorRef = useRef<HTMLDivElement>(null);
+  const pendingCaretRef = useRef<number | null>(null);
+
+  const tokens = parseSearch(value, { extended });
+  const active = caret === null ? undefined : tokens.find((token) => token.start < caret && caret <= token.end);
+  // The token being typed is not flagged until the caret leaves it or the search is
+  // submitted, unless the server cannot apply it whatever follows.
+  const pending = isSubmitted || active?.unsupported ? undefined : active;
+  const errors = tokens.filter((token) => token.error && token !== pending);
+  const suggestions = dismissedAt === value ? [] : suggest(active, departments, cities);
+  const isOpen = suggestions.length > 0;
+
+  const syncScroll = () => {
+    if (mirrorRef.current && inputRef.current) mirrorRef.current.scrollLeft = inputRef.current.scrollLeft;
+  };
+
+  useLayoutEffect(() => {
+    const input = inputRef.current;
+    if (input && pendingCaretRef.current !== null) {
+      input.focus();
+      input.setSelectionRange(pendingCaretRef.current, pendingCaretRef.current);
+      setCaret(pendingCaretRef.current);
+      pendingCaretRef.current = null;
+    }
+    syncScroll();
+  }, [value]);
+
+  const updateCaret = () => {
+    setCaret(inputRef.current?.selectionStart ?? null);
+    syncScroll();
+  };
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setActiveIndex(-1);
+    setIsSubmitted(false);
+    setCaret(event.target.selectionStart);
+    onChange(event.target.value);
+  };
+
+  const accept = (suggestion: Suggestion) => {
+    if (!active) return;
+    pendingCaretRef.current = active.start + suggestion.text.length;
+    setActiveIndex(-1);
+    setIsSubmitted(false);
+    onChange(`${value.slice(0, active.start)}${suggestion.text}${value.slice(active.end)}`);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (isOpen && (event.key === 'ArrowDown' || event.key === 'ArrowUp')) {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      // -1 is the text itself, so Enter still searches.
+      setActiveIndex((current) => {
+        const next = current + step;
+        if (next >= suggestions.length) return -1;
+        return next < -1 ? suggestions.length - 1 : next;
+      });
+    } else if (isOpen && event.key === 'Tab' && !event.shiftKey) {
+      event.preventDefault();
+      accept(suggestions[Math.max(activeIndex, 0)]);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      if (isOpen && activeIndex >= 0) {
+        accept(suggestions[activeIndex]);
+      } else {
+        setIsSubmitted(true);
+        onSubmit();
+      }
+    } else if (isOpen && event.key === 'Escape') {
+      // Keeps the double-Escape filter reset from counting this press.
+      event.stopPropagation();
+      setDismissedAt(value);
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <div className="search-box">
+      <div className="search-box-field">
+        <input
+          ref={inputRef}
+          className="search-box-input"
+          type="text"
+          placeholder='Search users, or try dept:Sales city:"New York" -gender:male'
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onSelect={updateCaret}
+          onScroll={syncScroll}
+          onBlur={() => {
+            setCaret(null);
+            setActiveIndex(-1);
+          }}
+          role="combobox"
+          aria-label="Search users"
+          aria-autocomplete="list"
+          aria-expanded={isOpen}
+          aria-controls="search-box-suggestions"
+          aria-activedescendant={isOpen && activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
+          aria-invalid={errors.length > 0}
+          aria-describedby={errors.length > 0 ? 'search-box-errors' : undefined}
+          spellCheck={false}
+        />
+        <div className="search-box-mirror" ref={mirrorRef} aria-hidden="true">
+          {highlight(value, tokens, pending)}
+        </div>
+      </div>
+
+      {isOpen && (
+        <ul id="search-box-suggestions" className="search-box-suggestions" role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.label}
+              id={`search-suggestion-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={index === activeIndex ? 'active' : undefined}
+              onMouseDown={(event) => {
+                event.preventDefault();
+                accept(suggestion);
+              }}
+            >
+              {suggestion.label}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <ul id="search-box-errors" className="search-box-errors">
+          {errors.map((token) => (
+            <li key={token.start}>
+              <code>{value.slice(token.start, token.end)}</code> {token.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SearchBox;
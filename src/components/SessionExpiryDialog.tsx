@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import './SessionDialogs.css';
+import type { JSX } from 'react';
+import { getTokenExpiry } from '../auth/jwt';
+import { getSessionToken } from '../auth/session';
+import { apiClient } from '../utils/apiClient';
+import { useNotification } from './NotificationContext';
+
+// How long before the token's exp the warning appears.
+const WARNING_SECONDS = 60;
+
+interface SessionExpiryDialogProps {
+  onExpired: () => void;
+  onSignOut: () => void;
+}
+
+function secondsUntilExpiry(): number | null {
+  const expiresAt = getTokenExpiry(getSessionToken());
+  return expiresAt === null ? null : Math.ceil((expiresAt - Date.now()) / 1000);
+}
+
+function SessionExpiryDialog({ onExpired, onSignOut }: SessionExpiryDialogProps): JSX.Element | null {
+  const { showNotification } = useNotification();
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(secondsUntilExpiry);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  // The expiry a silent refresh was last tried for. A refresh that did not move it will not on the next tick either.
+  const refreshedExpiryRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setSecondsLeft(secondsUntilExpiry()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // A refresh token (or cookie) may still extend the session; only ask to sign in again when it cannot.
+  useEffect(() => {
+    if (secondsLeft === null || secondsLeft > 0 || isRefreshing) return;
+    const expiresAt = getTokenExpiry(getSessionToken());
+    if (expiresAt === refreshedExpiryRef.current) {
+      onExpired();
+      return;
+    }
+    refreshedExpiryRef.current = expiresAt;
+    setIsRefreshing(true);
+    void apiClient.refreshSession().then((refreshed) => {
+      setIsRefreshing(false);
+      if (refreshed) setSecondsLeft(secondsUntilExpiry());
+      else onExpired();
+    });
+  }, [isRefreshing, secondsLeft, onExpired]);
+
+  if (secondsLeft === null || secondsLeft <= 0 || secondsLeft > WARNING_SECONDS) return null;
+
+  const handleStaySignedIn = async () => {
+    setIsRefreshing(true);
+    const refreshed = await apiClient.refreshSession();
+    setIsRefreshing(false);
+    setSecondsLeft(secondsUntilExpiry());
+    if (!refreshed) {
+      showNotification('Could not extend your session. Save your work and sign in again.', 'warning');
+    }
+  };
+
+  return (
+    <div className="session-overlay">
+      <div className="session-dialog" role="alertdialog" aria-labelledby="session-expiry-title">
+        <h3 id="session-expiry-title">Your session is about to expire</h3>
+        <p>
+          You will be signed out in <strong>{secondsLeft}s</strong>. Unsaved changes stay on screen either
+          way.
+        </p>
+        <div className="session-actions">
+          <button className="session-btn session-secondary" onClick={onSignOut} type="button">
+            Sign out
+          </button>
+          <button
+            className="session-btn session-primary"
+            onClick={handleStaySignedIn}
+            disabled={isRefreshing}
+            type="button"
+          >
+            {isRefreshing ? 'Extending...' : 'Stay signed in'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SessionExpiryDialog;
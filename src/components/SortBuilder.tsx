@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { JSX } from 'react';
+import './SortBuilder.css';
+import { useAppSelector } from '../store/hooks';
+import type { SortKey, UserSortField } from '../types';
+import { BASIC_SORT_FIELDS } from '../utils/routing';
+
+const FIELD_LABELS: Record<UserSortField, string> = {
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  email: 'Email',
+  department: 'Department',
+  city: 'City',
+  createdAt: 'Created',
+  updatedAt: 'Updated'
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as UserSortField[];
+
+interface SortBuilderProps {
+  sortKeys: SortKey[];
+  onChange: (sortKeys: SortKey[]) => void;
+}
+
+function describe(key: SortKey): string {
+  return `${FIELD_LABELS[key.field]} ${key.order === 'asc' ? '↑' : '↓'}`;
+}
+
+// Ordered list of sort keys: the first decides, each later one breaks ties.
+// Changes apply straight away. Without the multiSort capability it is a single
+// key on the basic fields.
+function SortBuilder({ sortKeys, onChange }: SortBuilderProps): JSX.Element {
+  const multiSort = useAppSelector((state) => state.backend.capabilities.includes('multiSort'));
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const close = useCallback(() => setIsOpen(false), []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) close();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') close();
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [close, isOpen]);
+
+  const fields = multiSort ? FIELDS : BASIC_SORT_FIELDS;
+  const unused = fields.filter((field) => !sortKeys.some((key) => key.field === field));
+
+  const update = (index: number, changes: Partial<SortKey>) => {
+    onChange(sortKeys.map((key, position) => (position === index ? { ...key, ...changes } : key)));
+  };
+
+  const move = (index: number, step: -1 | 1) => {
+    const next = [...sortKeys];
+    [next[index], next[index + step]] = [next[index + step], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="dept-filter sort-builder" ref={containerRef}>
+      <span className="dept-title">Sort by:</span>
+      <button
+        className="sort-builder-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        title={sortKeys.map(describe).join(', then ')}
+        type="button"
+      >
+        {describe(sortKeys[0])}
+        {sortKeys.length > 1 && ` +${sortKeys.length - 1}`}
+      </button>
+
+      {isOpen && (
+        <div className="sort-builder-panel" role="dialog" aria-label="Sort order">
+          <ol className="sort-builder-list">
+            {sortKeys.map((key, index) => (
+              <li key={index} className="sort-builder-row">
+                <span className="sort-builder-step">{index === 0 ? 'Sort by' : 'then by'}</span>
+                <select
+                  value={key.field}
+                  onChange={(event) => update(index, { field: event.target.value as UserSortField })}
+                  aria-label={`Sort key ${index + 1}`}
+                >
+                  {[key.field, ...unused].map((field) => (
+                    <option key={field} value={field}>
+                      {FIELD_LABELS[field]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={key.order}
+                  onChange={(event) => update(index, { order: event.target.value as SortKey['order'] })}
+                  aria-label={`Direction of sort key ${index + 1}`}
+                >
+                  <option value="asc">Ascending</option>
+                  <option value="desc">Descending</option>
+                </select>
+                <button
+                  className="sort-builder-icon"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${FIELD_LABELS[key.field]} up`}
+                  type="button"
+                >
+                  ↑
+                </button>
+                <button
+                  className="sort-builder-icon"
+                  onClick={() => move(index, 1)}
+                  disabled={index === sortKeys.length - 1}
+                  aria-label={`Move ${FIELD_LABELS[key.field]} down`}
+                  type="button"
+                >
+                  ↓
+                </button>
+                <button
+                  className="sort-builder-icon"
+                  onClick={() => onChange(sortKeys.filter((_, position) => position !== index))}
+                  disabled={sortKeys.length === 1}
+                  aria-label={`Stop sorting by ${FIELD_LABELS[key.field]}`}
+                  type="button"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ol>
+          {multiSort && unused.length > 0 && (
+            <button
+              className="sort-builder-add"
+              onClick={() => onChange([...sortKeys, { field: unused[0], order: 'asc' }])}
+              type="button"
+            >
+              + Then by
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SortBuilder;
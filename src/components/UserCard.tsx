@@ -1,6 +1,14 @@
 ﻿import type { CSSProperties, ChangeEvent, MouseEvent } from 'react';
 import type { User } from '../types';
 import type { JSX } from 'react';
+import Highlight from './Highlight';
+import { matchesAny } from '../utils/searchHighlight';
+
+// Searched fields the card does not show, named in its "matched in" hint.
+const HIDDEN_FIELDS = [
+  { key: 'city', label: 'city' },
+  { key: 'department', label: 'department' }
+] as const;
 
 interface UserCardProps {
   user: User;
@@ -9,6 +17,9 @@ interface UserCardProps {
   isSelected: boolean;
   onSelect: (userId: string) => void;
   showCheckbox: boolean;
+  changedBy?: string;
+  // Folded search terms, see utils/searchHighlight.
+  highlightTerms?: string[];
   style?: CSSProperties;
 }
 
@@ -19,8 +30,12 @@ function UserCard({
   isSelected,
   onSelect,
   showCheckbox,
+  changedBy,
+  highlightTerms = [],
   style
 }: UserCardProps): JSX.Element {
+  const hiddenMatches = HIDDEN_FIELDS.filter(({ key }) => matchesAny(user[key], highlightTerms));
+
   const handleCardClick = (event: MouseEvent<HTMLDivElement>) => {
     if ((event.target as HTMLInputElement).type === 'checkbox') return;
     onClick(user);
@@ -33,7 +48,7 @@ function UserCard({
 
   return (
     <div
-      className={`user-card ${isSelected ? 'selected' : ''}`}
+      className={`user-card ${isSelected ? 'selected' : ''} ${user.contractIssues ? 'malformed' : ''}`}
       onClick={handleCardClick}
       style={{ opacity: isCreateFormOpen ? 0.5 : 1, ...style }}
     >
@@ -47,16 +62,36 @@ function UserCard({
         />
       )}
 
+      {changedBy && <span className="user-remote-badge">Updated by {changedBy}</span>}
+      {user.contractIssues && (
+        <span className="user-contract-badge" title={user.contractIssues.join('\n')}>
+          Malformed record
+        </span>
+      )}
+
       <img
         src={user.image || 'https://via.placeholder.com/100'}
         alt={user.firstName}
         className="user-avatar"
       />
       <h3 className="user-name">
-        {user.firstName} {user.lastName}
+        <Highlight text={`${user.firstName} ${user.lastName}`} terms={highlightTerms} />
       </h3>
-      <p className="user-email">{user.email}</p>
+      <p className="user-email">
+        <Highlight text={user.email} terms={highlightTerms} />
+      </p>
       <p className="user-phone">{user.phone}</p>
+      {hiddenMatches.length > 0 && (
+        <p className="user-match-hint">
+          Matched in{' '}
+          {hiddenMatches.map(({ key, label }, index) => (
+            <span key={key}>
+              {index > 0 && ', '}
+              {label} <Highlight text={user[key]} terms={highlightTerms} />
+            </span>
+          ))}
+        </p>
+      )}
     </div>
   );
 }
@@ -1,18 +1,33 @@
-﻿import { useEffect, useState } from 'react';
+﻿import { useCallback, useEffect, useState } from 'react';
 import type { ChangeEvent, FormEvent } from 'react';
 import './UserModal.css';
 import { useNotification } from './NotificationContext';
-import { API_BASE } from './config';
 import type { User } from '../types';
+import { getSessionEmail } from '../auth/session';
 import type { JSX } from 'react';
-import { formatApiErrorMessage, parseApiError } from '../utils/api';
+import { formatApiErrorMessage } from '../utils/api';
+import {
+  applyUserChanges,
+  isEditConflict,
+  isSessionExpiredError,
+  toParsedApiError,
+  type UserUpdateFields
+} from '../utils/apiClient';
+import { useLazyGetUserQuery, useUpdateUserMutation } from '../store/usersApi';
+import MergeConflictDialog from './MergeConflictDialog';
+import PermissionGate from './PermissionGate';
+import Highlight from './Highlight';
+import { useAppSelector, useCan } from '../store/hooks';
 
 interface UserModalProps {
   user: User | null;
   isOpen: boolean;
   onClose: () => void;
   onDelete?: (userId: string) => void;
-  onUpdate?: (updatedUser: Record<string, unknown>) => void;
+  onUpdate?: (updatedUser: User) => void;
+  onUpdateReverted?: (originalUser: User) => void;
+  // Folded search terms, see utils/searchHighlight.
+  highlightTerms?: string[];
 }
 
 type EditableUser = Partial<Omit<User, 'image'>> & { image?: string | File | null };
@@ -27,15 +42,40 @@ const editableFieldKeys: EditableUserKey[] = [
   'department'
 ];
 
+interface PendingSave {
+  changes: UserUpdateFields;
+  original: User;
+}
+
+interface EditConflict {
+  base: User;
+  mine: UserUpdateFields;
+  theirs: User;
+}
+
 const nonNumericFields = new Set<EditableUserKey>(['firstName', 'lastName', 'city', 'department']);
 const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const phoneRegex = /^\+?[1-9]\d{1,14}$/;
 
-function UserModal({ user, isOpen, onClose, onDelete, onUpdate }: UserModalProps): JSX.Element | null {
+function UserModal({
+  user,
+  isOpen,
+  onClose,
+  onDelete,
+  onUpdate,
+  onUpdateReverted,
+  highlightTerms = []
+}: UserModalProps): JSX.Element | null {
   const { showNotification } = useNotification();
   const [isEditing, setIsEditing] = useState(false);
   const [editUser, setEditUser] = useState<EditableUser>(user ?? {});
   const [preview, setPreview] = useState<string | null>(user?.image ?? null);
+  const [updateUserMutation] = useUpdateUserMutation();
+  const [fetchLatestUser] = useLazyGetUserQuery();
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  const [pendingSave, setPendingSave] = useState<PendingSave | null>(null);
+  const authStatus = useAppSelector((state) => state.auth.status);
+  const canEdit = useCan('users:edit');
 
   useEffect(() => {
     setEditUser(user ?? {});
@@ -43,6 +83,82 @@ function UserModal({ user, isOpen, onClose, onDelete, onUpdate }: UserModalProps
     setIsEditing(false);
   }, [user]);
 
+  // Saves against the version the edit started from, so the server can refuse
+  // it when someone else saved in between.
+  const saveChanges = useCallback(
+    async (changes: UserUpdateFields, original: User) => {
+      const id = original._id;
+      // Show the edit right away; the list refetch after the mutation brings in the server copy.
+      onUpdate?.(applyUserChanges(original, changes));
+      setIsEditing(false);
+
+      try {
+        await updateUserMutation({
+          id,
+          changes,
+          original,
+          version: { updatedAt: original.updatedAt, etag: original.etag }
+        }).unwrap();
+        showNotification('User updated successfully!', 'success');
+      } catch (error) {
+        // The edit stays on screen behind the re-login overlay and is sent again once signed in.
+        if (isSessionExpiredError(error)) {
+          setPendingSave({ changes, original });
+          return;
+        }
+
+        console.error('Update failed:', error);
+        onUpdateReverted?.(original);
+        const name = `${original.firstName} ${original.lastName}`.trim() || 'the user';
+
+        if (isEditConflict(error)) {
+          try {
+            const latest = await fetchLatestUser(id).unwrap();
+            onUpdateReverted?.(latest);
+            setConflict({ base: original, mine: changes, theirs: latest });
+            return;
+          } catch (fetchError) {
+            console.error('Could not load the latest version:', fetchError);
+          }
+        }
+
+        showNotification(
+          `${formatApiErrorMessage('Failed to update user', toParsedApiError(error))}. Changes to ${name} were reverted.`,
+          'error'
+        );
+      }
+    },
+    [fetchLatestUser, onUpdate, onUpdateReverted, showNotification, updateUserMutation]
+  );
+
+  useEffect(() => {
+    if (!pendingSave || authStatus === 'expired') return;
+    setPendingSave(null);
+    // Signing out instead drops the edit along with the rest of the session.
+    if (authStatus === 'signedIn') void saveChanges(pendingSave.changes, pendingSave.original);
+  }, [authStatus, pendingSave, saveChanges]);
+
+  const handleResolveConflict = (values: Record<string, string>) => {
+    if (!conflict) return;
+    const { mine, theirs } = conflict;
+    setConflict(null);
+    void saveChanges({ ...values, updatedBy: mine.updatedBy, image: mine.image }, theirs);
+  };
+
+  if (conflict) {
+    return (
+      <MergeConflictDialog
+        key={`${conflict.theirs._id}-${conflict.theirs.updatedAt ?? ''}`}
+        fields={editableFieldKeys}
+        base={conflict.base}
+        mine={conflict.mine as Record<string, string>}
+        theirs={conflict.theirs}
+        onResolve={handleResolveConflict}
+        onCancel={() => setConflict(null)}
+      />
+    );
+  }
+
   if (!isOpen || !user) return null;
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
@@ -94,63 +210,18 @@ function UserModal({ user, isOpen, onClose, onDelete, onUpdate }: UserModalProps
       sanitizedValues[field] = value;
     }
 
-    const formData = new FormData();
     setEditUser((prev) => ({ ...prev, ...sanitizedValues }));
-    editableFieldKeys.forEach((field) => {
-      const value = sanitizedValues[field];
-      if (value) {
-        formData.append(field, value);
-      }
-    });
-    const actorEmail = localStorage.getItem('email');
+    const changes: UserUpdateFields = { ...sanitizedValues };
+    const actorEmail = getSessionEmail();
     if (actorEmail) {
-      formData.append('updatedBy', actorEmail);
+      changes.updatedBy = actorEmail;
     }
 
     if (editUser.image && typeof editUser.image !== 'string') {
-      formData.append('image', editUser.image);
+      changes.image = editUser.image;
     }
 
-    const url = `${API_BASE}/api/users/${id}`;
-
-    try {
-      const token = sessionStorage.getItem('token');
-
-      const res = await fetch(url, {
-        method: 'PUT',
-        headers: token ? { Authorization: `Bearer ${token}` } : {},
-        body: formData
-      });
-
-      if (!res.ok) {
-        const apiError = await parseApiError(res);
-        throw new Error(formatApiErrorMessage('Failed to update user', apiError));
-      }
-
-      let data: Record<string, unknown> = {};
-      try {
-        data = (await res.json()) as Record<string, unknown>;
-      } catch {
-        data = {};
-      }
-      showNotification('User updated successfully!', 'success');
-      onUpdate?.(data);
-      setIsEditing(false);
-    } catch (error) {
-      console.error('Update failed:', error);
-      if (error instanceof TypeError) {
-        showNotification(
-          'Network error. Please ensure the backend is running and CORS is configured.',
-          'error'
-        );
-      } else {
-        const message =
-          error instanceof Error && error.message
-            ? error.message
-            : 'Failed to update user: Unknown error';
-        showNotification(message, 'error');
-      }
-    }
+    await saveChanges(changes, user);
   };
 
   const handleFieldChange =
@@ -177,9 +248,11 @@ function UserModal({ user, isOpen, onClose, onDelete, onUpdate }: UserModalProps
           <>
             <div className="modal-header">
               <h2>
-                {user.firstName} {user.lastName}
+                <Highlight text={`${user.firstName} ${user.lastName}`} terms={highlightTerms} />
               </h2>
-              <p>{user.email}</p>
+              <p>
+                <Highlight text={user.email} terms={highlightTerms} />
+              </p>
             </div>
 
             <div className="modal-avatar">
@@ -209,14 +282,22 @@ function UserModal({ user, isOpen, onClose, onDelete, onUpdate }: UserModalProps
             </div>
 
             <div className="modal-actions">
+              <PermissionGate permission="users:delete">
+                <button
+                  className="delete-btn"
+                  onClick={() => onDelete?.(user._id || user.id || '')}
+                  type="button"
+                >
+                  Delete
+                </button>
+              </PermissionGate>
               <button
-                className="delete-btn"
-                onClick={() => onDelete?.(user._id || user.id || '')}
+                className="edit-btn"
+                onClick={() => setIsEditing(true)}
+                disabled={!canEdit}
+                title={canEdit ? undefined : 'Your role cannot edit users'}
                 type="button"
               >
-                Delete
-              </button>
-              <button className="edit-btn" onClick={() => setIsEditing(true)} type="button">
                 Edit
               </button>
             </div>
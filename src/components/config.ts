@@ -1,2 +1,113 @@
-export const API_BASE = 'http://localhost:8080';
+export type AuthStyle = 'bearer' | 'cookie';
 
+export type BackendCapability =
+  | 'importPreview'
+  | 'bulkDelete'
+  | 'bulkRestore'
+  | 'permanentDelete'
+  | 'export'
+  | 'realtime'
+  // Understands the JSON `filter` parameter of the list endpoint.
+  | 'advancedFilters'
+  // Understands status and exclude_* parameters from search qualifiers.
+  | 'searchQualifiers'
+  // Reads repeated sort_by/sort_order pairs and sorts by email and created/updated dates.
+  | 'multiSort';
+
+// OpenID Connect provider offered next to the credentials form.
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  scope: string;
+  // Shown on the sign-in button, e.g. "Sign in with Company SSO".
+  label: string;
+}
+
+export interface BackendProfile {
+  id: string;
+  label: string;
+  baseUrl: string;
+  authStyle: AuthStyle;
+  // Assumed when the backend does not answer the capability probe.
+  capabilities: BackendCapability[];
+  // Served in-browser by src/mock instead of over the network.
+  mock?: boolean;
+  oidc?: OidcConfig;
+}
+
+export const ALL_CAPABILITIES: BackendCapability[] = [
+  'importPreview',
+  'bulkDelete',
+  'bulkRestore',
+  'permanentDelete',
+  'export',
+  'realtime',
+  'advancedFilters',
+  'searchQualifiers',
+  'multiSort'
+];
+
+// Both real backends trust the same identity provider when one is configured.
+const envOidc: OidcConfig | undefined =
+  import.meta.env.VITE_OIDC_ISSUER && import.meta.env.VITE_OIDC_CLIENT_ID
+    ? {
+        issuer: import.meta.env.VITE_OIDC_ISSUER.replace(/\/+$/, ''),
+        clientId: import.meta.env.VITE_OIDC_CLIENT_ID,
+        scope: import.meta.env.VITE_OIDC_SCOPE ?? 'openid profile email',
+        label: import.meta.env.VITE_OIDC_LABEL ?? 'Single sign-on'
+      }
+    : undefined;
+
+export const BACKEND_PROFILES: BackendProfile[] = [
+  {
+    id: 'node',
+    label: 'Node (Express)',
+    baseUrl: 'http://localhost:8080',
+    authStyle: 'bearer',
+    // Express reads a repeated sort_by as an array, so multi-key sorting waits for the backend to list it.
+    capabilities: ALL_CAPABILITIES.filter((capability) => capability !== 'multiSort'),
+    oidc: envOidc
+  },
+  {
+    id: 'python',
+    label: 'Python (FastAPI)',
+    baseUrl: 'http://localhost:8000',
+    authStyle: 'bearer',
+    capabilities: ['importPreview', 'bulkDelete', 'bulkRestore', 'permanentDelete', 'export'],
+    oidc: envOidc
+  },
+  ...(import.meta.env.DEV || import.meta.env.VITE_ENABLE_MOCK_BACKEND === 'true'
+    ? [
+        {
+          id: 'mock',
+          label: 'In-browser mock',
+          baseUrl: 'mock://local',
+          authStyle: 'bearer' as const,
+          capabilities: ALL_CAPABILITIES.filter((capability) => capability !== 'realtime'),
+          mock: true,
+          // Served by src/mock/mockIdp.ts.
+          oidc: {
+            issuer: 'mock://idp',
+            clientId: 'user-directory',
+            scope: 'openid profile email',
+            label: 'Mock SSO'
+          }
+        }
+      ]
+    : [])
+];
+
+const SELECTED_BACKEND_KEY = 'selectedBackend';
+
+export function getActiveBackend(): BackendProfile {
+  const selected = localStorage.getItem(SELECTED_BACKEND_KEY);
+  return BACKEND_PROFILES.find((profile) => profile.id === selected) ?? BACKEND_PROFILES[0];
+}
+
+export function setActiveBackend(id: string): void {
+  localStorage.setItem(SELECTED_BACKEND_KEY, id);
+}
+
+export function getApiBase(): string {
+  return getActiveBackend().baseUrl;
+}
@@ -1,63 +1,89 @@
-﻿import type { ChangeEvent, MutableRefObject } from 'react';
+﻿import { useEffect, useState } from 'react';
+import type { ChangeEvent } from 'react';
 import type { JSX } from 'react';
+import type { SortKey, UserFacets } from '../types';
+import { liftSearch, type LiftedSearch } from '../utils/searchSyntax';
+import type { BackendProfile } from './config';
+import AdvancedFilters from './AdvancedFilters';
+import FacetFilter from './FacetFilter';
+import SearchBox from './SearchBox';
+import SortBuilder from './SortBuilder';
+import SavedViewsMenu from './SavedViewsMenu';
+
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface HeaderProps {
   searchQuery: string;
   setSearchQuery: (value: string) => void;
+  onApplySearch: (lifted: LiftedSearch) => void;
   genderFilter: 'all' | 'male' | 'female';
   setGenderFilter: (value: 'all' | 'male' | 'female') => void;
-  departmentFilter: string;
-  setDepartmentFilter: (value: string) => void;
+  departmentFilters: string[];
+  setDepartmentFilters: (values: string[]) => void;
+  cityFilters: string[];
+  setCityFilters: (values: string[]) => void;
   departments: string[];
-  deptSelectRef: MutableRefObject<HTMLSelectElement | null>;
-  sortBy: 'firstName' | 'lastName' | 'department' | 'city';
-  setSortBy: (value: 'firstName' | 'lastName' | 'department' | 'city') => void;
-  sortOrder: 'asc' | 'desc';
-  setSortOrder: (value: 'asc' | 'desc') => void;
+  facets: UserFacets | null;
+  sortKeys: SortKey[];
+  setSortKeys: (value: SortKey[]) => void;
+  backends: BackendProfile[];
+  currentBackend: string;
+  onBackendChange: (id: string) => void;
 }
 
 function Header({
   searchQuery,
   setSearchQuery,
+  onApplySearch,
   genderFilter,
   setGenderFilter,
-  departmentFilter,
-  setDepartmentFilter,
+  departmentFilters,
+  setDepartmentFilters,
+  cityFilters,
+  setCityFilters,
   departments,
-  deptSelectRef,
-  sortBy,
-  setSortBy,
-  sortOrder,
-  setSortOrder
+  facets,
+  sortKeys,
+  setSortKeys,
+  backends,
+  currentBackend,
+  onBackendChange
 }: HeaderProps): JSX.Element {
-  const handleSearchChange = (event: ChangeEvent<HTMLInputElement>) => {
-    setSearchQuery(event.target.value);
-  };
+  const [searchInput, setSearchInput] = useState(searchQuery);
 
-  const handleGenderChange = (event: ChangeEvent<HTMLSelectElement>) => {
-    setGenderFilter(event.target.value as HeaderProps['genderFilter']);
-  };
+  // Keep the input in step when the query is changed elsewhere (e.g. double-Esc reset).
+  useEffect(() => {
+    setSearchInput(searchQuery);
+  }, [searchQuery]);
 
-  const handleDepartmentChange = (event: ChangeEvent<HTMLSelectElement>) => {
-    setDepartmentFilter(event.target.value);
-  };
+  useEffect(() => {
+    if (searchInput === searchQuery) return;
+    const timer = window.setTimeout(() => setSearchQuery(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [searchInput, searchQuery, setSearchQuery]);
 
-  const handleSortByChange = (event: ChangeEvent<HTMLSelectElement>) => {
-    setSortBy(event.target.value as HeaderProps['sortBy']);
+  const cities = facets?.city.map((facet) => facet.value) ?? [];
+
+  // Enter searches right away and moves department, city and gender qualifiers into their filters.
+  const handleSearchSubmit = () => {
+    const lifted = liftSearch(searchInput, { departments, cities });
+    setSearchInput(lifted.searchQuery);
+    onApplySearch(lifted);
   };
 
-  const handleSortOrderChange = (event: ChangeEvent<HTMLSelectElement>) => {
-    setSortOrder(event.target.value as HeaderProps['sortOrder']);
+  const handleGenderChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    setGenderFilter(event.target.value as HeaderProps['genderFilter']);
   };
 
   return (
     <header>
       <h1>User Directory</h1>
-      <input
-        type="text"
-        placeholder="Search users by name or email..."
-        value={searchQuery}
-        onChange={handleSearchChange}
+      <SearchBox
+        value={searchInput}
+        onChange={setSearchInput}
+        onSubmit={handleSearchSubmit}
+        departments={departments}
+        cities={cities}
       />
       <div className="filters">
         <div className="gender-filter">
@@ -73,46 +99,49 @@ function Header({
           </select>
         </div>
 
+        <FacetFilter
+          label="Department"
+          allLabel="All departments"
+          selected={departmentFilters}
+          onChange={setDepartmentFilters}
+          values={departments}
+          counts={facets?.department ?? null}
+        />
+
+        {/* Without facets there is no list of cities to offer. */}
+        {(facets || cityFilters.length > 0) && (
+          <FacetFilter
+            label="City"
+            allLabel="All cities"
+            selected={cityFilters}
+            onChange={setCityFilters}
+            values={[]}
+            counts={facets?.city ?? null}
+          />
+        )}
+
+        <SortBuilder sortKeys={sortKeys} onChange={setSortKeys} />
+
+        <AdvancedFilters />
+
+        <SavedViewsMenu />
+
         <div className="dept-filter">
-          <label htmlFor="filter-dept-select" className="dept-title">
-            Department:
+          <label htmlFor="backend-select" className="dept-title">
+            Backend:
           </label>
           <select
-            id="filter-dept-select"
-            ref={deptSelectRef}
-            value={departmentFilter}
-            onChange={handleDepartmentChange}
+            id="backend-select"
+            value={currentBackend}
+            onChange={(event) => onBackendChange(event.target.value)}
           >
-            <option value="all">All departments</option>
-            {departments.map((dept) => (
-              <option key={dept} value={dept}>
-                {dept}
+            {backends.map((backend) => (
+              <option key={backend.id} value={backend.id}>
+                {backend.label}
               </option>
             ))}
           </select>
         </div>
-
-        <div className="dept-filter">
-          <label htmlFor="sort-by" className="dept-title">
-            Sort by:
-          </label>
-          <select id="sort-by" value={sortBy} onChange={handleSortByChange}>
-            <option value="firstName">First Name</option>
-            <option value="lastName">Last Name</option>
-            <option value="department">Department</option>
-            <option value="city">City</option>
-          </select>
-        </div>
-
-        <div className="dept-filter">
-          <label htmlFor="sort-order" className="dept-title">
-            Order:
-          </label>
-          <select id="sort-order" value={sortOrder} onChange={handleSortOrderChange}>
-            <option value="asc">Ascending</option>
-            <option value="desc">Descending</option>
-          </select>
-        </div>
       </div>
     </header>
   );
@@ -1,4 +1,4 @@
-import { StrictMode } from 'react';
+import { StrictMode, Suspense, lazy } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
 import { Provider } from 'react-redux';
@@ -6,19 +6,31 @@ import { NotificationProvider } from './components/NotificationContext';
 import { store } from './store/store';
 import './index.css';
 
+const MockIdpAuthorize = lazy(() => import('./mock/MockIdpAuthorize'));
+
 const container = document.getElementById('root');
 
 if (!container) {
   throw new Error('Root element with id "root" not found');
 }
 
+// The mock identity provider's login page (src/mock/mockIdp.ts) is served from this bundle.
+const isMockIdpPage =
+  (import.meta.env.DEV || import.meta.env.VITE_ENABLE_MOCK_BACKEND === 'true') &&
+  window.location.pathname === `${import.meta.env.BASE_URL}mock-idp/authorize`;
+
 createRoot(container).render(
   <StrictMode>
-    <Provider store={store}>
-      <NotificationProvider>
-        <App />
-      </NotificationProvider>
-    </Provider>
+    {isMockIdpPage ? (
+      <Suspense fallback={null}>
+        <MockIdpAuthorize />
+      </Suspense>
+    ) : (
+      <Provider store={store}>
+        <NotificationProvider>
+          <App />
+        </NotificationProvider>
+      </Provider>
+    )}
   </StrictMode>
 );
-
@@ -0,0 +1,106 @@
+import { useMemo } from 'react';
+import type { JSX } from 'react';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import Stack from '@mui/material/Stack';
+import { ThemeProvider } from '@mui/material/styles';
+import AuthCard from '../auth/authCard';
+import { signInTheme } from '../auth/theme';
+import { MOCK_IDP_CLIENT_ID, issueAuthorizationCode } from './mockIdp';
+import { MOCK_ACCOUNTS } from './mockBackend';
+
+interface AuthorizeParams {
+  clientId: string;
+  redirectUri: string;
+  state: string;
+  nonce?: string;
+  codeChallenge: string;
+}
+
+// Mirrors the checks a real provider makes before it shows its login page.
+function readAuthorizeParams(search: string): AuthorizeParams | string {
+  const params = new URLSearchParams(search);
+  const clientId = params.get('client_id') ?? '';
+  const redirectUri = params.get('redirect_uri') ?? '';
+  const codeChallenge = params.get('code_challenge') ?? '';
+  if (clientId !== MOCK_IDP_CLIENT_ID) return `Unknown client "${clientId}"`;
+  if (params.get('response_type') !== 'code') return 'Only the authorization code flow is supported';
+  if (params.get('code_challenge_method') !== 'S256' || !codeChallenge) return 'A PKCE S256 code challenge is required';
+  if (!params.get('scope')?.split(' ').includes('openid')) return 'The "openid" scope is required';
+  try {
+    if (new URL(redirectUri).origin !== window.location.origin) return 'The redirect URI is not registered';
+  } catch {
+    return 'The redirect URI is invalid';
+  }
+  return {
+    clientId,
+    redirectUri,
+    codeChallenge,
+    state: params.get('state') ?? '',
+    nonce: params.get('nonce') ?? undefined
+  };
+}
+
+function redirectBack(redirectUri: string, values: Record<string, string>): void {
+  const target = new URL(redirectUri);
+  Object.entries(values).forEach(([key, value]) => target.searchParams.set(key, value));
+  window.location.assign(target.toString());
+}
+
+// Account picker standing in for the provider's own login page.
+function MockIdpAuthorize(): JSX.Element {
+  const request = useMemo(() => readAuthorizeParams(window.location.search), []);
+
+  const approve = (params: AuthorizeParams, email: string) => {
+    const code = issueAuthorizationCode({
+      email,
+      clientId: params.clientId,
+      redirectUri: params.redirectUri,
+      codeChallenge: params.codeChallenge,
+      nonce: params.nonce
+    });
+    redirectBack(params.redirectUri, { code, state: params.state });
+  };
+
+  const deny = (params: AuthorizeParams) => {
+    redirectBack(params.redirectUri, {
+      error: 'access_denied',
+      error_description: 'Sign-in was cancelled at the identity provider',
+      state: params.state
+    });
+  };
+
+  return (
+    <ThemeProvider theme={signInTheme}>
+      <AuthCard
+        title="Mock identity provider"
+        subtitle={typeof request === 'string' ? undefined : `Choose an account to continue to ${request.clientId}.`}
+      >
+        {typeof request === 'string' ? (
+          <Alert severity="error">{request}</Alert>
+        ) : (
+          <Stack spacing={1} sx={{ mt: 1 }}>
+            {MOCK_ACCOUNTS.map((account) => (
+              <Button
+                key={account.email}
+                variant="outlined"
+                color="inherit"
+                fullWidth
+                onClick={() => approve(request, account.email)}
+                sx={{ justifyContent: 'space-between', textTransform: 'none' }}
+              >
+                <span>{account.email}</span>
+                <span>{account.role}</span>
+              </Button>
+            ))}
+            <Button fullWidth onClick={() => deny(request)}>
+              Cancel
+            </Button>
+          </Stack>
+        )}
+      </AuthCard>
+    </ThemeProvider>
+  );
+}
+
+export default MockIdpAuthorize;
@@ -0,0 +1,76 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { configureMockBackend, issueToken, mockFetch, resetMockDatabase } from './mockBackend';
+import { getMockUsers } from './mockDb';
+
+let token: string;
+
+function call(method: string, path: string, body?: unknown): Promise<Response> {
+  return mockFetch(`mock://local${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+async function status(method: string, path: string, body?: unknown): Promise<number> {
+  return (await call(method, path, body)).status;
+}
+
+async function deletedIds(): Promise<string[]> {
+  const page = (await (await call('GET', '/api/users/deleted')).json()) as { users: Array<{ _id: string }> };
+  return page.users.map((user) => user._id);
+}
+
+describe('mock backend trash', () => {
+  let active: string;
+  let trashed: string;
+
+  beforeAll(() => {
+    configureMockBackend({ latencyMs: [0, 0], rateLimit: { maxRequests: 10000, windowMs: 60 * 1000 } });
+    token = issueToken('admin@example.com');
+  });
+
+  beforeEach(async () => {
+    await resetMockDatabase();
+    [active, trashed] = [...(await getMockUsers()).keys()];
+    expect(await status('DELETE', `/api/users/${trashed}`)).toBe(200);
+  });
+
+  it('hides soft-deleted users and lists them as deleted', async () => {
+    expect(await status('GET', `/api/users/${trashed}`)).toBe(404);
+    expect(await deletedIds()).toEqual([trashed]);
+  });
+
+  it('purges only users in the trash', async () => {
+    expect(await status('DELETE', `/api/users/${active}/permanent`)).toBe(404);
+    expect(await status('GET', `/api/users/${active}`)).toBe(200);
+
+    expect(await status('DELETE', `/api/users/${trashed}/permanent`)).toBe(200);
+    expect((await getMockUsers()).has(trashed)).toBe(false);
+    expect(await deletedIds()).toEqual([]);
+  });
+
+  it('bulk-purges only the trashed ids it is given', async () => {
+    const response = await call('POST', '/api/users/bulk-delete-permanent', { ids: [active, trashed, 'missing'] });
+    expect(await response.json()).toEqual({ deleted: 1 });
+
+    const users = await getMockUsers();
+    expect(users.has(active)).toBe(true);
+    expect(users.has(trashed)).toBe(false);
+  });
+
+  it('restores only users in the trash', async () => {
+    expect(await status('POST', `/api/users/${active}/restore`)).toBe(404);
+
+    expect(await status('POST', `/api/users/${trashed}/restore`)).toBe(200);
+    expect(await status('GET', `/api/users/${trashed}`)).toBe(200);
+    expect(await deletedIds()).toEqual([]);
+  });
+
+  it('bulk-restores only the trashed ids it is given', async () => {
+    const response = await call('POST', '/api/users/bulk-restore', { ids: [active, trashed] });
+    expect(await response.json()).toEqual({ restored: 1 });
+    expect(await deletedIds()).toEqual([]);
+  });
+});
@@ -0,0 +1,894 @@
+import { failedPasswordRules } from '../auth/passwordRules';
+import { PERMISSION_LABELS, ROLE_PERMISSIONS } from '../auth/permissions';
+import { ALL_CAPABILITIES } from '../components/config';
+import { decodeQuery, matchesQuery } from '../utils/advancedQuery';
+import type {
+  FacetCount,
+  Gender,
+  ImportErrorItem,
+  ImportPreview,
+  Permission,
+  Role,
+  SavedView,
+  SavedViewFilters
+} from '../types';
+import { getMockUsers, resetMockDatabase, saveMockUsers } from './mockDb';
+import type { MockUserRecord } from './mockSeed';
+import { createRecoveryCodes, createTotpSecret, toOtpauthUrl, verifyTotp } from './mockTotp';
+
+// One account per role, so permission gating can be tried without a real server.
+export const MOCK_ACCOUNTS: Array<{ email: string; password: string; role: Role }> = [
+  { email: 'admin@example.com', password: 'admin123', role: 'admin' },
+  { email: 'editor@example.com', password: 'editor123', role: 'editor' },
+  { email: 'viewer@example.com', password: 'viewer123', role: 'viewer' }
+];
+
+export interface MockBackendOptions {
+  latencyMs: [number, number];
+  tokenTtlMs: number;
+  refreshTokenTtlMs: number;
+  rateLimit: { maxRequests: number; windowMs: number };
+  // Mirrors the security policy: admins must pass a TOTP check after their password.
+  requireAdminMfa: boolean;
+}
+
+const options: MockBackendOptions = {
+  latencyMs: [120, 400],
+  tokenTtlMs: 30 * 60 * 1000,
+  refreshTokenTtlMs: 12 * 60 * 60 * 1000,
+  rateLimit: { maxRequests: 120, windowMs: 60 * 1000 },
+  requireAdminMfa: true
+};
+
+// Lets demos and automated suites shorten token lifetimes, tighten the rate
+// limit or drop the artificial latency.
+export function configureMockBackend(next: Partial<MockBackendOptions>): void {
+  Object.assign(options, next);
+}
+
+export { resetMockDatabase };
+
+const USER_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'gender', 'city', 'department'] as const;
+const SORTABLE_FIELDS = new Set(['firstName', 'lastName', 'email', 'department', 'city', 'createdAt', 'updatedAt']);
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type UserField = (typeof USER_FIELDS)[number];
+type FieldError = { field: string; message: string };
+type Body = FormData | URLSearchParams | Record<string, unknown> | null;
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  body: Body;
+}
+
+// Changed passwords and pending reset links outlive a reload, since the link is opened in a new page.
+const PASSWORDS_KEY = 'mock:passwords';
+const PASSWORD_RESETS_KEY = 'mock:password-resets';
+const PASSWORD_RESET_TTL_MS = 30 * 60 * 1000;
+// Saved filter views per admin email.
+const SAVED_VIEWS_KEY = 'mock:saved-views';
+
+const MFA_ISSUER = 'User Directory';
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MFA_MAX_ATTEMPTS = 5;
+
+interface MfaEnrollmentState {
+  secret: string;
+  recoveryCodes: string[];
+  // False until the first code is verified, so an abandoned enrollment can be restarted.
+  confirmed: boolean;
+}
+
+interface MfaChallenge {
+  email: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+const requestLog: number[] = [];
+// Kept in memory: reloading the page forgets enrollments, which keeps demos repeatable.
+const mfaEnrollments = new Map<string, MfaEnrollmentState>();
+const mfaChallenges = new Map<string, MfaChallenge>();
+let idCounter = 0;
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+function error(status: number, message: string, errors?: FieldError[]): Response {
+  return json(status, errors ? { success: false, message, errors } : { success: false, message });
+}
+
+function delay(signal?: AbortSignal | null): Promise<void> {
+  const [min, max] = options.latencyMs;
+  const ms = min + Math.random() * Math.max(0, max - min);
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      window.clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+// Sliding window over every request, mirroring the real server's limiter.
+function rateLimited(): Response | null {
+  const now = Date.now();
+  const { maxRequests, windowMs } = options.rateLimit;
+  while (requestLog.length > 0 && requestLog[0] <= now - windowMs) {
+    requestLog.shift();
+  }
+  if (requestLog.length >= maxRequests) {
+    const retryAfter = Math.max(1, Math.ceil((requestLog[0] + windowMs - now) / 1000));
+    return json(
+      429,
+      { detail: { message: 'Rate limit exceeded', retry_after: retryAfter } },
+      { 'Retry-After': String(retryAfter) }
+    );
+  }
+  requestLog.push(now);
+  return null;
+}
+
+// Also used by the mock identity provider, so single sign-on tokens work against this backend.
+export function issueToken(email: string, kind: 'access' | 'refresh' = 'access'): string {
+  const ttl = kind === 'access' ? options.tokenTtlMs : options.refreshTokenTtlMs;
+  const exp = Math.floor((Date.now() + ttl) / 1000);
+  return `mock.${btoa(JSON.stringify({ sub: email, exp, typ: kind }))}.${Math.random().toString(36).slice(2)}`;
+}
+
+export function verifyToken(token: string, kind: 'access' | 'refresh'): { email: string } | Response {
+  try {
+    const [, payload] = token.split('.');
+    const claims = JSON.parse(atob(payload)) as { sub?: string; exp?: number; typ?: string };
+    if (!claims.sub || !claims.exp || (claims.typ ?? 'access') !== kind) return error(401, 'Invalid token');
+    if (claims.exp * 1000 <= Date.now()) return error(401, 'Token expired');
+    return { email: claims.sub };
+  } catch {
+    return error(401, 'Invalid token');
+  }
+}
+
+function authenticate(headers: Headers): { email: string } | Response {
+  const match = /^Bearer\s+(.+)$/.exec(headers.get('Authorization') ?? '');
+  if (!match) return error(401, 'Not authenticated');
+  return verifyToken(match[1], 'access');
+}
+
+function etagOf(user: MockUserRecord): string {
+  return `"${user.updatedAt}"`;
+}
+
+function readBody(body: BodyInit | null | undefined): Body {
+  if (body instanceof FormData || body instanceof URLSearchParams) return body;
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body) as Record<string, unknown>;
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function field(body: Body, name: string): FormDataEntryValue | unknown {
+  if (body instanceof FormData || body instanceof URLSearchParams) return body.get(name) ?? undefined;
+  return body?.[name];
+}
+
+function readIds(body: Body): string[] {
+  const ids = field(body, 'ids');
+  return Array.isArray(ids) ? ids.map(String) : [];
+}
+
+function fileToDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function validate(
+  values: Partial<Record<UserField, string>>,
+  users: Map<string, MockUserRecord>,
+  selfId?: string
+): FieldError[] {
+  const errors: FieldError[] = [];
+  const required: UserField[] = selfId ? [] : ['firstName', 'lastName', 'email'];
+  required.forEach((name) => {
+    if (!values[name]?.trim()) errors.push({ field: name, message: 'is required' });
+  });
+  if (values.email !== undefined && values.email.trim()) {
+    const email = values.email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      errors.push({ field: 'email', message: 'must be a valid email address' });
+    } else if ([...users.values()].some((user) => user._id !== selfId && user.email === email)) {
+      errors.push({ field: 'email', message: 'is already in use' });
+    }
+  }
+  if (values.gender && values.gender !== 'male' && values.gender !== 'female') {
+    errors.push({ field: 'gender', message: 'must be male or female' });
+  }
+  return errors;
+}
+
+function readUserFields(body: Body): Partial<Record<UserField, string>> {
+  const values: Partial<Record<UserField, string>> = {};
+  USER_FIELDS.forEach((name) => {
+    const value = field(body, name);
+    if (typeof value === 'string' && value.trim()) values[name] = value.trim();
+  });
+  if (values.email) values.email = values.email.toLowerCase();
+  return values;
+}
+
+function nextId(): string {
+  idCounter += 1;
+  return `mock-${Date.now().toString(36)}-${idCounter}`;
+}
+
+function newRecord(values: Partial<Record<UserField, string>>, actor: string): MockUserRecord {
+  const now = new Date().toISOString();
+  return {
+    _id: nextId(),
+    firstName: values.firstName ?? '',
+    lastName: values.lastName ?? '',
+    email: values.email ?? '',
+    phone: values.phone ?? '',
+    gender: values.gender === 'female' ? 'female' : 'male',
+    city: values.city ?? '',
+    department: values.department ?? '',
+    image: null,
+    status: 'active',
+    createdAt: now,
+    createdBy: actor,
+    updatedAt: now,
+    updatedBy: actor
+  };
+}
+
+// Department, city and status values compare case-insensitively, as typed in search qualifiers.
+function lowerAll(query: URLSearchParams, name: string): string[] {
+  return query.getAll(name).map((value) => value.toLowerCase());
+}
+
+function oneOf(values: string[], actual: string): boolean {
+  return values.length === 0 || values.includes(actual.toLowerCase());
+}
+
+function noneOf(values: string[], actual: string): boolean {
+  return !values.includes(actual.toLowerCase());
+}
+
+function filterUsers(users: MockUserRecord[], query: URLSearchParams): MockUserRecord[] {
+  const search = query.get('search')?.trim().toLowerCase();
+  const excludedTerms = lowerAll(query, 'exclude_search');
+  const gender = query.get('gender');
+  const departments = lowerAll(query, 'department');
+  const cities = lowerAll(query, 'city');
+  const statuses = lowerAll(query, 'status');
+  const excludedDepartments = lowerAll(query, 'exclude_department');
+  const excludedCities = lowerAll(query, 'exclude_city');
+  const excludedStatuses = lowerAll(query, 'exclude_status');
+  const filter = decodeQuery(query.get('filter'));
+  // sort_by and sort_order repeat once per key, paired by position.
+  const orders = query.getAll('sort_order');
+  const sortKeys = query
+    .getAll('sort_by')
+    .map((field, index) => ({ field, direction: orders[index] === 'desc' ? -1 : 1 }))
+    .filter(({ field }) => SORTABLE_FIELDS.has(field));
+  if (sortKeys.length === 0) sortKeys.push({ field: 'firstName', direction: 1 });
+  const searchable = (user: MockUserRecord) =>
+    [user.firstName, user.lastName, user.email, user.city, user.department, `${user.firstName} ${user.lastName}`].map(
+      (value) => value.toLowerCase()
+    );
+
+  return users
+    .filter((user) => !gender || user.gender === gender)
+    .filter((user) => oneOf(departments, user.department) && noneOf(excludedDepartments, user.department))
+    .filter((user) => oneOf(cities, user.city) && noneOf(excludedCities, user.city))
+    .filter((user) => oneOf(statuses, user.status) && noneOf(excludedStatuses, user.status))
+    .filter((user) => matchesQuery(user, filter))
+    .filter((user) => !search || searchable(user).some((value) => value.includes(search)))
+    .filter((user) => !searchable(user).some((value) => excludedTerms.some((term) => value.includes(term))))
+    .sort((a, b) => {
+      for (const { field, direction } of sortKeys) {
+        const key = field as keyof MockUserRecord;
+        const order = String(a[key] ?? '').localeCompare(String(b[key] ?? ''), undefined, { sensitivity: 'base' });
+        if (order !== 0) return direction * order;
+      }
+      return a._id.localeCompare(b._id);
+    });
+}
+
+// Counts per value, with every filter applied except the facet's own selection.
+function countFacet(users: MockUserRecord[], query: URLSearchParams, facet: 'department' | 'city'): FacetCount[] {
+  const others = new URLSearchParams(query);
+  others.delete(facet);
+  const counts = new Map<string, number>();
+  filterUsers(users, others).forEach((user) => {
+    if (user[facet]) counts.set(user[facet], (counts.get(user[facet]) ?? 0) + 1);
+  });
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+function toNumber(value: string | null, fallback: number, max = Number.MAX_SAFE_INTEGER): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.min(parsed, max) : fallback;
+}
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+function toCsv(users: MockUserRecord[]): string {
+  const escape = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const columns = [...USER_FIELDS, 'status', 'createdAt', 'updatedAt'] as const;
+  const lines = users.map((user) => columns.map((column) => escape(String(user[column] ?? ''))).join(','));
+  return [columns.join(','), ...lines].join('\n');
+}
+
+interface ImportAnalysis {
+  preview: ImportPreview;
+  valid: Array<Partial<Record<UserField, string>>>;
+}
+
+async function analyseImport(body: Body, users: Map<string, MockUserRecord>): Promise<ImportAnalysis | Response> {
+  const file = field(body, 'file');
+  if (!(file instanceof File)) return error(400, 'A CSV file is required');
+  const [header, ...rows] = parseCsv(await file.text());
+  if (!header) return error(400, 'The CSV file is empty');
+
+  const columns = header.map((name) => name.trim());
+  const missing = ['firstName', 'lastName', 'email'].filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    return error(
+      400,
+      'The CSV header is missing required columns',
+      missing.map((name) => ({ field: name, message: 'column is missing' }))
+    );
+  }
+
+  const errors: ImportErrorItem[] = [];
+  const valid: ImportAnalysis['valid'] = [];
+  const seen = new Set<string>();
+  rows.forEach((cells, index) => {
+    const values: Partial<Record<UserField, string>> = {};
+    columns.forEach((column, position) => {
+      if ((USER_FIELDS as readonly string[]).includes(column) && cells[position]?.trim()) {
+        values[column as UserField] = cells[position].trim();
+      }
+    });
+    if (values.email) values.email = values.email.toLowerCase();
+    const problems = validate(values, users);
+    if (values.email && seen.has(values.email)) {
+      problems.push({ field: 'email', message: 'is duplicated in this file' });
+    }
+    if (problems.length > 0) {
+      errors.push({
+        row: index + 2,
+        email: values.email ?? '',
+        reason: problems.map((problem) => `${problem.field} ${problem.message}`).join('; ')
+      });
+    } else {
+      valid.push(values);
+    }
+    if (values.email) seen.add(values.email);
+  });
+
+  return {
+    preview: {
+      total_rows: rows.length,
+      valid_users: valid.length,
+      invalid_users: errors.length,
+      errors
+    },
+    valid
+  };
+}
+
+function requiredPermission(method: string, path: string): Permission | null {
+  if (path === '/api/users/export') return 'users:export';
+  if (path === '/api/users/import/confirm') return 'users:import';
+  if (path === '/api/users/bulk-delete') return 'users:delete';
+  if (path === '/api/users/bulk-restore' || path.endsWith('/restore')) return 'users:restore';
+  if (path === '/api/users/bulk-delete-permanent' || path.endsWith('/permanent')) return 'users:purge';
+  if (/^\/api\/users\/?$/.test(path)) return method === 'POST' ? 'users:create' : null;
+  if (/^\/api\/users\/[^/]+$/.test(path)) {
+    if (method === 'PUT') return 'users:edit';
+    if (method === 'DELETE') return 'users:delete';
+  }
+  return null;
+}
+
+function sessionResponse(email: string, role: Role): Response {
+  return json(200, {
+    access_token: issueToken(email),
+    refresh_token: issueToken(email, 'refresh'),
+    token_type: 'bearer',
+    role,
+    permissions: ROLE_PERMISSIONS[role]
+  });
+}
+
+function readMfaChallenge(body: Body): { token: string; challenge: MfaChallenge } | Response {
+  const token = field(body, 'mfa_token');
+  const challenge = typeof token === 'string' ? mfaChallenges.get(token) : undefined;
+  if (typeof token !== 'string' || !challenge || challenge.expiresAt <= Date.now()) {
+    return error(401, 'The sign-in attempt expired. Start again with your password.');
+  }
+  return { token, challenge };
+}
+
+async function verifyMfa(body: Body): Promise<Response> {
+  const found = readMfaChallenge(body);
+  if (found instanceof Response) return found;
+  const { token, challenge } = found;
+  const enrollment = mfaEnrollments.get(challenge.email);
+  if (!enrollment) return error(409, 'Two-step verification is not set up yet');
+
+  const code = field(body, 'code');
+  const recoveryCode = field(body, 'recovery_code');
+  let verified = false;
+  if (typeof code === 'string') {
+    verified = await verifyTotp(enrollment.secret, code.trim());
+  } else if (typeof recoveryCode === 'string' && enrollment.confirmed) {
+    const normalized = recoveryCode.trim().toLowerCase();
+    verified = enrollment.recoveryCodes.includes(normalized);
+    // Recovery codes are single use.
+    if (verified) enrollment.recoveryCodes = enrollment.recoveryCodes.filter((entry) => entry !== normalized);
+  }
+
+  if (!verified) {
+    challenge.attempts += 1;
+    if (challenge.attempts >= MFA_MAX_ATTEMPTS) mfaChallenges.delete(token);
+    return error(401, 'Invalid authentication code');
+  }
+  enrollment.confirmed = true;
+  mfaChallenges.delete(token);
+  return sessionResponse(challenge.email, roleOf(challenge.email));
+}
+
+function readStoredMap<T>(key: string): Record<string, T> {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as Record<string, T>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function passwordOf(email: string): string | undefined {
+  return readStoredMap<string>(PASSWORDS_KEY)[email] ?? MOCK_ACCOUNTS.find((entry) => entry.email === email)?.password;
+}
+
+function setPassword(email: string, password: string): void {
+  localStorage.setItem(PASSWORDS_KEY, JSON.stringify({ ...readStoredMap<string>(PASSWORDS_KEY), [email]: password }));
+}
+
+function weakPassword(field: string, password: string, email?: string): Response | null {
+  const failed = failedPasswordRules(password, email);
+  if (failed.length === 0) return null;
+  return error(400, 'Password does not meet the requirements', [
+    { field, message: `needs: ${failed.map((rule) => rule.label.toLowerCase()).join(', ')}` }
+  ]);
+}
+
+// No mail goes out; development builds log the link so it can be opened from the console.
+function requestPasswordReset(body: Body): Response {
+  const email = String(field(body, 'email') ?? '').trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(email)) {
+    return error(400, 'Validation failed', [{ field: 'email', message: 'Enter a valid email address' }]);
+  }
+  if (MOCK_ACCOUNTS.some((entry) => entry.email === email)) {
+    const token = `reset.${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+    const resets = readStoredMap<{ email: string; expiresAt: number }>(PASSWORD_RESETS_KEY);
+    resets[token] = { email, expiresAt: Date.now() + PASSWORD_RESET_TTL_MS };
+    localStorage.setItem(PASSWORD_RESETS_KEY, JSON.stringify(resets));
+    if (import.meta.env.DEV) {
+      const link = new URL(`${import.meta.env.BASE_URL}?reset_token=${token}`, window.location.origin);
+      console.info(`[mock] Password reset link for ${email}: ${link.toString()}`);
+    }
+  }
+  return json(202, { message: 'If an account exists for that email, a reset link is on its way.' });
+}
+
+function resetPassword(body: Body): Response {
+  const token = String(field(body, 'token') ?? '');
+  const password = String(field(body, 'password') ?? '');
+  const resets = readStoredMap<{ email: string; expiresAt: number }>(PASSWORD_RESETS_KEY);
+  const reset = resets[token];
+  if (!reset || reset.expiresAt <= Date.now()) {
+    return error(400, 'This reset link is invalid or has expired', [
+      { field: 'token', message: 'Request a new reset link' }
+    ]);
+  }
+  const weak = weakPassword('password', password, reset.email);
+  if (weak) return weak;
+  delete resets[token];
+  localStorage.setItem(PASSWORD_RESETS_KEY, JSON.stringify(resets));
+  setPassword(reset.email, password);
+  return json(200, { message: 'Password updated' });
+}
+
+function changePassword(body: Body, email: string): Response {
+  const current = String(field(body, 'current_password') ?? '');
+  const next = String(field(body, 'new_password') ?? '');
+  if (current !== passwordOf(email)) {
+    return error(400, 'Validation failed', [{ field: 'current_password', message: 'Current password is incorrect' }]);
+  }
+  if (next === current) {
+    return error(400, 'Validation failed', [
+      { field: 'new_password', message: 'Choose a password you have not used here before' }
+    ]);
+  }
+  const weak = weakPassword('new_password', next, email);
+  if (weak) return weak;
+  setPassword(email, next);
+  return json(200, { message: 'Password changed' });
+}
+
+function viewsOf(email: string): SavedView[] {
+  return readStoredMap<SavedView[]>(SAVED_VIEWS_KEY)[email] ?? [];
+}
+
+function setViews(email: string, views: SavedView[]): void {
+  localStorage.setItem(SAVED_VIEWS_KEY, JSON.stringify({ ...readStoredMap<SavedView[]>(SAVED_VIEWS_KEY), [email]: views }));
+}
+
+function viewName(body: Body, views: SavedView[], exceptId?: string): string | Response {
+  const name = String(field(body, 'name') ?? '').trim();
+  if (!name) return error(422, 'Validation failed', [{ field: 'name', message: 'Name is required' }]);
+  if (views.some((view) => view.id !== exceptId && view.name.toLowerCase() === name.toLowerCase())) {
+    return error(422, 'Validation failed', [{ field: 'name', message: 'A view with this name already exists' }]);
+  }
+  return name;
+}
+
+// Only one view per admin may be the default.
+function withDefault(views: SavedView[], id: string, isDefault: boolean): SavedView[] {
+  return views.map((view) => ({ ...view, isDefault: view.id === id ? isDefault : isDefault ? false : view.isDefault }));
+}
+
+function savedViews(method: string, path: string, body: Body, email: string): Response {
+  const views = viewsOf(email);
+  const now = new Date().toISOString();
+
+  if (path === '/api/views' && method === 'GET') return json(200, views);
+
+  if (path === '/api/views' && method === 'POST') {
+    const name = viewName(body, views);
+    if (name instanceof Response) return name;
+    const view: SavedView = {
+      id: nextId(),
+      name,
+      filters: field(body, 'filters') as SavedViewFilters,
+      isDefault: false,
+      updatedAt: now
+    };
+    let next = [...views, view];
+    if (field(body, 'isDefault') === true) next = withDefault(next, view.id, true);
+    setViews(email, next);
+    return json(201, next.find((entry) => entry.id === view.id));
+  }
+
+  const id = decodeURIComponent(path.slice('/api/views/'.length));
+  const current = views.find((view) => view.id === id);
+  if (!current) return error(404, 'View not found');
+
+  if (method === 'PUT') {
+    let next = views;
+    if (field(body, 'name') !== undefined) {
+      const name = viewName(body, views, id);
+      if (name instanceof Response) return name;
+      next = next.map((view) => (view.id === id ? { ...view, name, updatedAt: now } : view));
+    }
+    const isDefault = field(body, 'isDefault');
+    if (typeof isDefault === 'boolean') next = withDefault(next, id, isDefault);
+    setViews(email, next);
+    return json(200, next.find((view) => view.id === id));
+  }
+
+  if (method === 'DELETE') {
+    setViews(email, views.filter((view) => view.id !== id));
+    return json(200, { message: 'View deleted' });
+  }
+
+  return error(404, `No mock route for ${method} ${path}`);
+}
+
+function roleOf(email: string): Role {
+  return MOCK_ACCOUNTS.find((account) => account.email === email)?.role ?? 'viewer';
+}
+
+async function route(request: MockRequest): Promise<Response> {
+  const { method, path, query, body } = request;
+
+  if (method === 'POST' && path === '/auth/login') {
+    const email = String(field(body, 'email') ?? '').trim().toLowerCase();
+    const password = String(field(body, 'password') ?? '');
+    const account = MOCK_ACCOUNTS.find((entry) => entry.email === email && passwordOf(entry.email) === password);
+    if (!account) {
+      return error(401, 'Incorrect email or password');
+    }
+    if (account.role === 'admin' && options.requireAdminMfa) {
+      const mfaToken = `mfa.${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+      mfaChallenges.set(mfaToken, { email, expiresAt: Date.now() + MFA_CHALLENGE_TTL_MS, attempts: 0 });
+      return json(200, {
+        mfa_required: true,
+        mfa_token: mfaToken,
+        mfa_enrolled: mfaEnrollments.get(email)?.confirmed ?? false
+      });
+    }
+    return sessionResponse(email, account.role);
+  }
+
+  if (method === 'POST' && path === '/auth/password/forgot') {
+    return requestPasswordReset(body);
+  }
+
+  if (method === 'POST' && path === '/auth/password/reset') {
+    return resetPassword(body);
+  }
+
+  if (method === 'POST' && path === '/auth/mfa/enroll') {
+    const found = readMfaChallenge(body);
+    if (found instanceof Response) return found;
+    const { email } = found.challenge;
+    if (mfaEnrollments.get(email)?.confirmed) return error(409, 'Two-step verification is already set up');
+    const secret = createTotpSecret();
+    const recoveryCodes = createRecoveryCodes();
+    mfaEnrollments.set(email, { secret, recoveryCodes, confirmed: false });
+    return json(200, {
+      secret,
+      otpauth_url: toOtpauthUrl(secret, email, MFA_ISSUER),
+      recovery_codes: recoveryCodes
+    });
+  }
+
+  if (method === 'POST' && path === '/auth/mfa/verify') {
+    return verifyMfa(body);
+  }
+
+  if (method === 'POST' && path === '/auth/refresh') {
+    const refreshToken = field(body, 'refresh_token');
+    const session =
+      typeof refreshToken === 'string' ? verifyToken(refreshToken, 'refresh') : authenticate(request.headers);
+    if (session instanceof Response) return session;
+    return json(200, { access_token: issueToken(session.email), token_type: 'bearer' });
+  }
+
+  const session = authenticate(request.headers);
+  if (session instanceof Response) return session;
+  const actor = session.email;
+  const role = roleOf(actor);
+
+  if (method === 'GET' && path === '/auth/me') {
+    return json(200, { email: actor, role, permissions: ROLE_PERMISSIONS[role] });
+  }
+
+  if (method === 'POST' && path === '/auth/password/change') {
+    return changePassword(body, actor);
+  }
+
+  if (path === '/api/views' || path.startsWith('/api/views/')) {
+    return savedViews(method, path, body, actor);
+  }
+
+  const permission = requiredPermission(method, path);
+  if (permission && !ROLE_PERMISSIONS[role].includes(permission)) {
+    return error(403, `The ${role} role cannot ${PERMISSION_LABELS[permission]}`);
+  }
+
+  if (method === 'GET' && path === '/api/capabilities') {
+    return json(200, { features: ALL_CAPABILITIES.filter((capability) => capability !== 'realtime') });
+  }
+
+  const users = await getMockUsers();
+  const active = [...users.values()].filter((user) => !user.deletedAt);
+  const deleted = [...users.values()].filter((user) => user.deletedAt);
+
+  if (path === '/api/users/' || path === '/api/users') {
+    if (method === 'GET') {
+      const matches = filterUsers(active, query);
+      const skip = toNumber(query.get('skip'), 0);
+      const limit = toNumber(query.get('limit'), 10, 100);
+      return json(200, { users: matches.slice(skip, skip + limit), total: matches.length });
+    }
+    if (method === 'POST') {
+      const values = readUserFields(body);
+      const errors = validate(values, users);
+      if (errors.length > 0) return error(422, 'Validation failed', errors);
+      const record = newRecord(values, actor);
+      const image = field(body, 'image');
+      if (image instanceof File && image.size > 0) record.image = await fileToDataUrl(image);
+      await saveMockUsers([record]);
+      return json(201, record);
+    }
+  }
+
+  if (method === 'GET' && path === '/api/users/departments') {
+    const departments = [...new Set(active.map((user) => user.department).filter(Boolean))];
+    return json(200, departments.sort((a, b) => a.localeCompare(b)));
+  }
+
+  if (method === 'GET' && path === '/api/users/facets') {
+    return json(200, {
+      department: countFacet(active, query, 'department'),
+      city: countFacet(active, query, 'city')
+    });
+  }
+
+  if (method === 'GET' && path === '/api/users/deleted') {
+    const limit = toNumber(query.get('limit'), 100, 500);
+    const sorted = deleted.sort((a, b) => String(b.deletedAt).localeCompare(String(a.deletedAt)));
+    return json(200, { users: sorted.slice(0, limit), total: sorted.length });
+  }
+
+  if (method === 'GET' && path === '/api/users/export') {
+    return new Response(toCsv(filterUsers(active, query)), {
+      status: 200,
+      headers: { 'Content-Type': 'text/csv' }
+    });
+  }
+
+  if (method === 'POST' && (path === '/api/users/import/preview' || path === '/api/users/import/confirm')) {
+    const analysis = await analyseImport(body, users);
+    if (analysis instanceof Response) return analysis;
+    if (path.endsWith('/preview')) return json(200, analysis.preview);
+    const records = analysis.valid.map((values) => newRecord(values, actor));
+    await saveMockUsers(records);
+    return json(200, { imported: records.length, skipped: analysis.preview.invalid_users });
+  }
+
+  if (method === 'POST' && path.startsWith('/api/users/bulk-')) {
+    const ids = readIds(body).filter((id) => users.has(id));
+    const now = new Date().toISOString();
+    if (path === '/api/users/bulk-delete') {
+      const records = ids
+        .map((id) => users.get(id) as MockUserRecord)
+        .filter((user) => !user.deletedAt)
+        .map((user) => ({ ...user, deletedAt: now, updatedBy: actor }));
+      await saveMockUsers(records);
+      return json(200, { deleted: records.length });
+    }
+    if (path === '/api/users/bulk-restore') {
+      const records = ids
+        .map((id) => users.get(id) as MockUserRecord)
+        .filter((user) => user.deletedAt)
+        .map(({ deletedAt: _deletedAt, ...user }) => ({ ...user, updatedAt: now, updatedBy: actor }));
+      await saveMockUsers(records);
+      return json(200, { restored: records.length });
+    }
+    if (path === '/api/users/bulk-delete-permanent') {
+      // Only users already in the trash can be purged.
+      const purged = ids.filter((id) => users.get(id)?.deletedAt);
+      await saveMockUsers([], purged);
+      return json(200, { deleted: purged.length });
+    }
+  }
+
+  const match = /^\/api\/users\/([^/]+)(\/restore|\/permanent)?$/.exec(path);
+  const user = match ? users.get(decodeURIComponent(match[1])) : undefined;
+  if (match && !user) return error(404, 'User not found');
+
+  if (match && user) {
+    const [, , action] = match;
+    const now = new Date().toISOString();
+
+    if (!action && method === 'GET' && !user.deletedAt) return json(200, user, { ETag: etagOf(user) });
+
+    if (!action && method === 'PUT' && !user.deletedAt) {
+      const ifMatch = request.headers.get('If-Match');
+      if (ifMatch && ifMatch !== '*' && ifMatch !== etagOf(user)) {
+        return error(412, 'The user was changed by someone else since you loaded it');
+      }
+      const expectedUpdatedAt = field(body, 'expectedUpdatedAt');
+      if (typeof expectedUpdatedAt === 'string' && expectedUpdatedAt && expectedUpdatedAt !== user.updatedAt) {
+        return error(409, 'The user was changed by someone else since you loaded it');
+      }
+      const values = readUserFields(body);
+      const errors = validate(values, users, user._id);
+      if (errors.length > 0) return error(422, 'Validation failed', errors);
+      const updated: MockUserRecord = {
+        ...user,
+        ...values,
+        gender: (values.gender as Gender | undefined) ?? user.gender,
+        updatedAt: now,
+        updatedBy: actor
+      };
+      const updatedBy = field(body, 'updatedBy');
+      if (typeof updatedBy === 'string' && updatedBy) updated.updatedBy = updatedBy;
+      const image = field(body, 'image');
+      if (image instanceof File && image.size > 0) updated.image = await fileToDataUrl(image);
+      await saveMockUsers([updated]);
+      return json(200, updated, { ETag: etagOf(updated) });
+    }
+
+    if (!action && method === 'DELETE' && !user.deletedAt) {
+      await saveMockUsers([{ ...user, deletedAt: now, updatedBy: actor }]);
+      return json(200, { message: 'User deleted' });
+    }
+
+    if (action === '/restore' && method === 'POST' && user.deletedAt) {
+      const { deletedAt: _deletedAt, ...restored } = user;
+      await saveMockUsers([{ ...restored, updatedAt: now, updatedBy: actor }]);
+      return json(200, { message: 'User restored' });
+    }
+
+    if (action === '/permanent' && method === 'DELETE' && user.deletedAt) {
+      await saveMockUsers([], [user._id]);
+      return json(200, { message: 'User permanently deleted' });
+    }
+
+    if (user.deletedAt || action) return error(404, 'User not found');
+  }
+
+  return error(404, `No mock route for ${method} ${path}`);
+}
+
+// Stand-in for fetch() when the mock backend profile is selected. Answers
+// every route the frontend calls from an IndexedDB-backed user table.
+export async function mockFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  await delay(init.signal);
+  const limited = rateLimited();
+  if (limited) return limited;
+
+  const target = new URL(url.replace(/^mock:\/\/[^/]*/, ''), 'http://mock.local');
+  return route({
+    method: (init.method ?? 'GET').toUpperCase(),
+    path: target.pathname,
+    query: target.searchParams,
+    headers: new Headers(init.headers),
+    body: readBody(init.body)
+  });
+}
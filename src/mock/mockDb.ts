@@ -0,0 +1,80 @@
+import { createSeedUsers, type MockUserRecord } from './mockSeed';
+
+const DB_NAME = 'user-directory-mock';
+const DB_VERSION = 1;
+const USERS_STORE = 'users';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let usersPromise: Promise<Map<string, MockUserRecord>> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(USERS_STORE)) {
+          request.result.createObjectStore(USERS_STORE, { keyPath: '_id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function writeAll(db: IDBDatabase, records: MockUserRecord[], removedIds: string[] = []): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(USERS_STORE, 'readwrite');
+    const store = transaction.objectStore(USERS_STORE);
+    records.forEach((record) => store.put(record));
+    removedIds.forEach((id) => store.delete(id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function load(): Promise<Map<string, MockUserRecord>> {
+  const db = await openDb();
+  const records = await new Promise<MockUserRecord[]>((resolve, reject) => {
+    const request = db.transaction(USERS_STORE, 'readonly').objectStore(USERS_STORE).getAll();
+    request.onsuccess = () => resolve(request.result as MockUserRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+
+  if (records.length === 0) {
+    const seed = createSeedUsers();
+    await writeAll(db, seed);
+    return new Map(seed.map((record) => [record._id, record]));
+  }
+  return new Map(records.map((record) => [record._id, record]));
+}
+
+// The whole table is kept in memory; IndexedDB is written through so data survives reloads.
+export function getMockUsers(): Promise<Map<string, MockUserRecord>> {
+  if (!usersPromise) {
+    usersPromise = load().catch((error) => {
+      usersPromise = null;
+      throw error;
+    });
+  }
+  return usersPromise;
+}
+
+export async function saveMockUsers(records: MockUserRecord[], removedIds: string[] = []): Promise<void> {
+  const users = await getMockUsers();
+  records.forEach((record) => users.set(record._id, record));
+  removedIds.forEach((id) => users.delete(id));
+  await writeAll(await openDb(), records, removedIds);
+}
+
+export async function resetMockDatabase(): Promise<void> {
+  const users = await getMockUsers();
+  const removed = [...users.keys()];
+  users.clear();
+  const seed = createSeedUsers();
+  await saveMockUsers(seed, removed.filter((id) => !seed.some((record) => record._id === id)));
+}
@@ -0,0 +1,151 @@
+import { ROLE_PERMISSIONS } from '../auth/permissions';
+import { toPkceChallenge } from '../auth/oidc';
+import { MOCK_ACCOUNTS, issueToken, verifyToken } from './mockBackend';
+
+// In-browser OpenID Connect provider for the mock backend profile. The
+// authorize step is a real page on this origin (see main.tsx), so the
+// redirect round trip and the PKCE exchange behave as with a real provider.
+
+export const MOCK_IDP_ISSUER = 'mock://idp';
+export const MOCK_IDP_CLIENT_ID = 'user-directory';
+
+const AUTHORIZE_PATH = 'mock-idp/authorize';
+// Codes survive the redirect back to the app, so they live in sessionStorage rather than memory.
+const CODES_KEY = 'mock-idp:codes';
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+interface AuthorizationCode {
+  email: string;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  expiresAt: number;
+}
+
+export interface AuthorizationRequest {
+  email: string;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+}
+
+function readCodes(): Record<string, AuthorizationCode> {
+  try {
+    const stored = sessionStorage.getItem(CODES_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, AuthorizationCode>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeCodes(codes: Record<string, AuthorizationCode>): void {
+  sessionStorage.setItem(CODES_KEY, JSON.stringify(codes));
+}
+
+export function getMockIdpAuthorizeUrl(): string {
+  return new URL(`${import.meta.env.BASE_URL}${AUTHORIZE_PATH}`, window.location.origin).toString();
+}
+
+export function issueAuthorizationCode(request: AuthorizationRequest): string {
+  const code = `code.${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+  const codes = readCodes();
+  codes[code] = { ...request, expiresAt: Date.now() + CODE_TTL_MS };
+  writeCodes(codes);
+  return code;
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function oauthError(error: string, description: string): Response {
+  return json(400, { error, error_description: description });
+}
+
+function encodeSegment(value: unknown): string {
+  return btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Unsigned (alg "none"): the client only reads the claims, and nothing outside the browser trusts it.
+function issueIdToken(email: string, clientId: string, nonce?: string): string {
+  const account = MOCK_ACCOUNTS.find((entry) => entry.email === email);
+  const role = account?.role ?? 'viewer';
+  const now = Math.floor(Date.now() / 1000);
+  const claims = {
+    iss: MOCK_IDP_ISSUER,
+    aud: clientId,
+    sub: email,
+    email,
+    email_verified: true,
+    name: email.split('@')[0],
+    role,
+    permissions: ROLE_PERMISSIONS[role],
+    nonce,
+    iat: now,
+    exp: now + ID_TOKEN_TTL_SECONDS
+  };
+  return `${encodeSegment({ alg: 'none', typ: 'JWT' })}.${encodeSegment(claims)}.`;
+}
+
+async function exchangeCode(body: URLSearchParams): Promise<Response> {
+  const codes = readCodes();
+  const code = body.get('code') ?? '';
+  const grant = codes[code];
+  // Codes are single use, whether or not the exchange succeeds.
+  delete codes[code];
+  writeCodes(codes);
+
+  if (!grant || grant.expiresAt <= Date.now()) {
+    return oauthError('invalid_grant', 'The authorization code is invalid or has expired');
+  }
+  if (body.get('client_id') !== grant.clientId || body.get('redirect_uri') !== grant.redirectUri) {
+    return oauthError('invalid_grant', 'The code was issued to a different client or redirect URI');
+  }
+  const verifier = body.get('code_verifier') ?? '';
+  if (!verifier || (await toPkceChallenge(verifier)) !== grant.codeChallenge) {
+    return oauthError('invalid_grant', 'PKCE verification failed');
+  }
+
+  return json(200, {
+    token_type: 'Bearer',
+    id_token: issueIdToken(grant.email, grant.clientId, grant.nonce),
+    access_token: issueToken(grant.email),
+    refresh_token: issueToken(grant.email, 'refresh'),
+    expires_in: ID_TOKEN_TTL_SECONDS
+  });
+}
+
+function refreshTokens(body: URLSearchParams): Response {
+  const session = verifyToken(body.get('refresh_token') ?? '', 'refresh');
+  if (session instanceof Response) return oauthError('invalid_grant', 'The refresh token is invalid or has expired');
+  return json(200, { token_type: 'Bearer', access_token: issueToken(session.email) });
+}
+
+export async function mockIdpFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const path = url.slice(MOCK_IDP_ISSUER.length);
+  const method = (init.method ?? 'GET').toUpperCase();
+
+  if (method === 'GET' && path === '/.well-known/openid-configuration') {
+    return json(200, {
+      issuer: MOCK_IDP_ISSUER,
+      authorization_endpoint: getMockIdpAuthorizeUrl(),
+      token_endpoint: `${MOCK_IDP_ISSUER}/token`,
+      response_types_supported: ['code'],
+      code_challenge_methods_supported: ['S256'],
+      grant_types_supported: ['authorization_code', 'refresh_token']
+    });
+  }
+
+  if (method === 'POST' && path === '/token') {
+    const body = new URLSearchParams(init.body instanceof URLSearchParams ? init.body : String(init.body ?? ''));
+    const grantType = body.get('grant_type');
+    if (grantType === 'authorization_code') return exchangeCode(body);
+    if (grantType === 'refresh_token') return refreshTokens(body);
+    return oauthError('unsupported_grant_type', `Grant type "${grantType ?? ''}" is not supported`);
+  }
+
+  return json(404, { error: 'not_found', error_description: `No mock identity provider route for ${method} ${path}` });
+}
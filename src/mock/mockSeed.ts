@@ -0,0 +1,92 @@
+import type { Gender } from '../types';
+
+export interface MockUserRecord {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  gender: Gender;
+  city: string;
+  department: string;
+  image: string | null;
+  status: string;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  updatedBy: string;
+  deletedAt?: string;
+}
+
+const FIRST_NAMES: Array<[string, Gender]> = [
+  ['Alice', 'female'],
+  ['Bruno', 'male'],
+  ['Chloé', 'female'],
+  ['Dmitri', 'male'],
+  ['Emma', 'female'],
+  ['Farid', 'male'],
+  ['Grace', 'female'],
+  ['Hiro', 'male'],
+  ['Ines', 'female'],
+  ['José', 'male'],
+  ['Keira', 'female'],
+  ['Liam', 'male'],
+  ['Maya', 'female'],
+  ['Noah', 'male'],
+  ['Olivia', 'female'],
+  ['Pedro', 'male']
+];
+
+const LAST_NAMES = [
+  'Anderson',
+  'Bianchi',
+  'Chen',
+  'Dubois',
+  'Evans',
+  'Fischer',
+  'García',
+  'Haddad',
+  'Ivanova',
+  'Johnson',
+  'Kowalski',
+  'López',
+  'Müller',
+  'Nakamura',
+  'Okafor',
+  'Patel'
+];
+
+const CITIES = ['New York', 'London', 'Berlin', 'Tokyo', 'São Paulo', 'Toronto', 'Sydney', 'Mumbai'];
+
+const DEPARTMENTS = ['Engineering', 'Sales', 'Marketing', 'Finance', 'Support', 'Human Resources', 'Legal'];
+
+export const MOCK_SEED_SIZE = 120;
+
+// Deterministic so a fresh mock database always looks the same.
+export function createSeedUsers(count = MOCK_SEED_SIZE): MockUserRecord[] {
+  const start = Date.UTC(2024, 0, 1);
+  return Array.from({ length: count }, (_, index) => {
+    const [firstName, gender] = FIRST_NAMES[index % FIRST_NAMES.length];
+    const lastName = LAST_NAMES[(index * 7) % LAST_NAMES.length];
+    const timestamp = new Date(start + index * 36 * 60 * 60 * 1000).toISOString();
+    return {
+      _id: `seed-${String(index + 1).padStart(4, '0')}`,
+      firstName,
+      lastName,
+      email: `${firstName}.${lastName}${index}@example.com`
+        .normalize('NFD')
+        .replace(/[̀-ͯ]/g, '')
+        .toLowerCase(),
+      phone: `+1555${String(1000000 + index * 7919).slice(-7)}`,
+      gender,
+      city: CITIES[(index * 3) % CITIES.length],
+      department: DEPARTMENTS[(index * 5) % DEPARTMENTS.length],
+      image: null,
+      status: index % 9 === 0 ? 'inactive' : 'active',
+      createdAt: timestamp,
+      createdBy: 'seed',
+      updatedAt: timestamp,
+      updatedBy: 'seed'
+    };
+  });
+}
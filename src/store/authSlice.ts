@@ -0,0 +1,163 @@
+import { createSlice, type Dispatch, type PayloadAction } from '@reduxjs/toolkit';
+import { UNRESTRICTED_PROFILE, toAuthProfile } from '../auth/permissions';
+import {
+  clearSession,
+  getRefreshToken,
+  getSessionEmail,
+  getSessionIssuer,
+  getSessionProfile,
+  getSessionToken,
+  isSessionActive,
+  isSessionRemembered,
+  saveSession,
+  saveSessionIssuer,
+  saveSessionProfile,
+  updateSessionTokens
+} from '../auth/session';
+import { publishSessionEvent, type SessionEvent } from '../auth/sessionBus';
+import { getActiveBackend } from '../components/config';
+import type { AuthProfile, LoginResponse } from '../types';
+import { clearOfflineData } from '../utils/offlineStore';
+import { setQueuedCount } from './offlineSlice';
+import type { RootState } from './store';
+import { refreshUserLists, usersApi } from './usersApi';
+
+// 'expired' keeps the directory mounted behind the re-login overlay.
+export type AuthStatus = 'signedOut' | 'signedIn' | 'expired';
+
+interface AuthState extends AuthProfile {
+  status: AuthStatus;
+  email: string | null;
+}
+
+const initialState: AuthState = {
+  ...(getSessionProfile() ?? UNRESTRICTED_PROFILE),
+  status: isSessionActive() ? 'signedIn' : 'signedOut',
+  email: isSessionActive() ? getSessionEmail() : null
+};
+
+const authSlice = createSlice({
+  name: 'auth',
+  initialState,
+  reducers: {
+    login(state, action: PayloadAction<{ email: string; profile: AuthProfile }>) {
+      state.status = 'signedIn';
+      state.email = action.payload.email;
+      state.role = action.payload.profile.role;
+      state.permissions = action.payload.profile.permissions;
+    },
+    logout(state) {
+      state.status = 'signedOut';
+      state.email = null;
+      state.role = UNRESTRICTED_PROFILE.role;
+      state.permissions = UNRESTRICTED_PROFILE.permissions;
+    },
+    expire(state) {
+      if (state.status === 'signedIn') state.status = 'expired';
+    },
+    setAuthProfile(state, action: PayloadAction<AuthProfile>) {
+      state.role = action.payload.role;
+      state.permissions = action.payload.permissions;
+    }
+  }
+});
+
+export const { login, logout, expire, setAuthProfile } = authSlice.actions;
+
+interface SignInOptions {
+  // Set for single sign-on sessions, whose tokens are refreshed at the identity provider.
+  issuer?: string;
+  // Keeps the session in localStorage so it outlives the browser window.
+  remember?: boolean;
+}
+
+function toLoginEvent(email: string, profile: AuthProfile): SessionEvent {
+  return {
+    type: 'login',
+    backendId: getActiveBackend().id,
+    email,
+    token: getSessionToken(),
+    refreshToken: getRefreshToken(),
+    profile,
+    issuer: getSessionIssuer(),
+    remember: isSessionRemembered()
+  };
+}
+
+// Persists the tokens before flipping the store, so the first queries after login are authorized.
+export const signIn =
+  (email: string, data: LoginResponse, { issuer, remember = false }: SignInOptions = {}) =>
+  (dispatch: Dispatch) => {
+    saveSession(data.access_token, email, data.refresh_token, remember);
+    saveSessionIssuer(issuer ?? null);
+    const profile = toAuthProfile(data) ?? UNRESTRICTED_PROFILE;
+    saveSessionProfile(profile);
+    dispatch(login({ email, profile }));
+    publishSessionEvent(toLoginEvent(email, profile));
+  };
+
+function endSession(dispatch: Dispatch): void {
+  // Started before the session is cleared, while the store still opens this admin's database.
+  clearOfflineData().catch((error: unknown) => console.error('Offline store error:', error));
+  dispatch(setQueuedCount(0));
+  clearSession();
+  dispatch(logout());
+  // Cached pages belong to the old session; the next sign-in must fetch them again.
+  dispatch(usersApi.util.resetApiState());
+}
+
+// Signs out every open tab, not just this one.
+export const signOut = () => (dispatch: Dispatch) => {
+  endSession(dispatch);
+  publishSessionEvent({ type: 'logout', backendId: getActiveBackend().id });
+};
+
+// A freshly opened tab asks the others for their session instead of showing the login page.
+export const requestSessionSync = () => (_dispatch: Dispatch, getState: () => RootState) => {
+  const { auth, backend } = getState();
+  if (auth.status === 'signedOut') publishSessionEvent({ type: 'sync', backendId: backend.activeId });
+};
+
+// Applies a session change made in another tab. Nothing here publishes again,
+// so events cannot bounce between tabs.
+export const receiveSessionEvent = (event: SessionEvent) => (dispatch: Dispatch, getState: () => RootState) => {
+  const { auth, backend } = getState();
+
+  if (event.type === 'backend') {
+    // The selection is already in localStorage; reloading picks it up like in the tab that switched.
+    if (event.backendId !== backend.activeId) window.location.reload();
+    return;
+  }
+  if (event.backendId !== backend.activeId) return;
+
+  switch (event.type) {
+    case 'login': {
+      if (auth.status !== 'signedOut' && auth.email !== event.email) endSession(dispatch);
+      saveSession(event.token ?? undefined, event.email, event.refreshToken ?? undefined, event.remember);
+      saveSessionIssuer(event.issuer);
+      saveSessionProfile(event.profile);
+      dispatch(login({ email: event.email, profile: event.profile }));
+      if (auth.status === 'expired') dispatch(refreshUserLists());
+      break;
+    }
+    case 'logout':
+      if (auth.status !== 'signedOut') endSession(dispatch);
+      break;
+    case 'refresh':
+      if (auth.status === 'signedOut') break;
+      updateSessionTokens(event.token ?? undefined, event.refreshToken ?? undefined);
+      // Another tab proved the session is still good, so this one can drop its re-login prompt.
+      if (auth.status === 'expired' && auth.email) {
+        dispatch(login({ email: auth.email, profile: { role: auth.role, permissions: auth.permissions } }));
+        dispatch(refreshUserLists());
+      }
+      break;
+    case 'sync':
+      if (auth.status === 'signedIn' && auth.email) {
+        publishSessionEvent(toLoginEvent(auth.email, { role: auth.role, permissions: auth.permissions }));
+      }
+      break;
+  }
+};
+
+export default authSlice.reducer;
@@ -0,0 +1,27 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+import { getActiveBackend, type BackendCapability } from '../components/config';
+
+interface BackendState {
+  activeId: string;
+  capabilities: BackendCapability[];
+}
+
+// The profile's list applies until the backend answers the capability probe in App.
+const initialState: BackendState = {
+  activeId: getActiveBackend().id,
+  capabilities: getActiveBackend().capabilities
+};
+
+const backendSlice = createSlice({
+  name: 'backend',
+  initialState,
+  reducers: {
+    setCapabilities(state, action: PayloadAction<BackendCapability[]>) {
+      state.capabilities = action.payload;
+    }
+  }
+});
+
+export const { setCapabilities } = backendSlice.actions;
+
+export default backendSlice.reducer;
@@ -1,5 +1,8 @@
 import { useDispatch, useSelector, type TypedUseSelectorHook } from 'react-redux';
+import type { Permission } from '../types';
 import type { AppDispatch, RootState } from './store';
 
 export const useAppDispatch = (): AppDispatch => useDispatch<AppDispatch>();
 export const useAppSelector: TypedUseSelectorHook<RootState> = useSelector;
+export const useCan = (permission: Permission): boolean =>
+  useAppSelector((state) => state.auth.permissions.includes(permission));
@@ -0,0 +1,36 @@
+import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
+
+interface OfflineState {
+  isOffline: boolean;
+  queuedCount: number;
+  cachedAt: string | null;
+}
+
+const initialState: OfflineState = {
+  isOffline: false,
+  queuedCount: 0,
+  cachedAt: null
+};
+
+const offlineSlice = createSlice({
+  name: 'offline',
+  initialState,
+  reducers: {
+    setOffline(state, action: PayloadAction<boolean>) {
+      state.isOffline = action.payload;
+      if (!action.payload) {
+        state.cachedAt = null;
+      }
+    },
+    setQueuedCount(state, action: PayloadAction<number>) {
+      state.queuedCount = action.payload;
+    },
+    setCachedAt(state, action: PayloadAction<string | null>) {
+      state.cachedAt = action.payload;
+    }
+  }
+});
+
+export const { setOffline, setQueuedCount, setCachedAt } = offlineSlice.actions;
+
+export default offlineSlice.reducer;
@@ -0,0 +1,197 @@
+import { createSlice, type Dispatch, type PayloadAction } from '@reduxjs/toolkit';
+import type { SavedView, SavedViewFilters } from '../types';
+import { EMPTY_QUERY, encodeQuery } from '../utils/advancedQuery';
+import { apiClient } from '../utils/apiClient';
+import { sameSelection, sameSortKeys, type ListView } from '../utils/routing';
+import { logout } from './authSlice';
+import type { RootState } from './store';
+
+// 'server' once the backend answered GET /api/views; 'local' keeps views in this browser only
+// (the backend has no such endpoint); 'unreachable' shows the cached copy of the server's views
+// until a later load gets through.
+export type SavedViewStorage = 'server' | 'local' | 'unreachable';
+
+interface SavedViewsState {
+  items: SavedView[];
+  storage: SavedViewStorage | null;
+}
+
+const initialState: SavedViewsState = {
+  items: [],
+  storage: null
+};
+
+const savedViewsSlice = createSlice({
+  name: 'savedViews',
+  initialState,
+  reducers: {
+    setSavedViews(state, action: PayloadAction<{ items: SavedView[]; storage: SavedViewStorage }>) {
+      state.items = action.payload.items;
+      state.storage = action.payload.storage;
+    },
+    upsertSavedView(state, action: PayloadAction<SavedView>) {
+      const view = action.payload;
+      if (view.isDefault) {
+        state.items.forEach((item) => {
+          item.isDefault = false;
+        });
+      }
+      const index = state.items.findIndex((item) => item.id === view.id);
+      if (index === -1) state.items.push(view);
+      else state.items[index] = view;
+    },
+    removeSavedView(state, action: PayloadAction<string>) {
+      state.items = state.items.filter((item) => item.id !== action.payload);
+    }
+  },
+  extraReducers: (builder) => {
+    builder.addCase(logout, () => initialState);
+  }
+});
+
+export const { setSavedViews, upsertSavedView, removeSavedView } = savedViewsSlice.actions;
+
+export function viewMatches(view: SavedView, filters: SavedViewFilters): boolean {
+  const saved = toListView(view);
+  return (
+    saved.searchQuery === filters.searchQuery &&
+    saved.genderFilter === filters.genderFilter &&
+    sameSortKeys(saved.sortKeys, filters.sortKeys ?? []) &&
+    sameSelection(saved.departmentFilters, filters.departmentFilters ?? []) &&
+    sameSelection(saved.cityFilters, filters.cityFilters ?? []) &&
+    encodeQuery(saved.advancedQuery) === encodeQuery(filters.advancedQuery)
+  );
+}
+
+// Fills in what older views lack: no advanced filter, no city, and their single
+// department and sort key.
+export function toListView(view: SavedView): ListView {
+  const { departmentFilter, sortBy, sortOrder, ...filters } = view.filters;
+  const legacyDepartments = departmentFilter && departmentFilter !== 'all' ? [departmentFilter] : [];
+  return {
+    ...filters,
+    sortKeys: filters.sortKeys?.length
+      ? filters.sortKeys
+      : [{ field: sortBy ?? 'firstName', order: sortOrder ?? 'asc' }],
+    departmentFilters: filters.departmentFilters ?? legacyDepartments,
+    cityFilters: filters.cityFilters ?? [],
+    advancedQuery: filters.advancedQuery ?? EMPTY_QUERY,
+    currentPage: 1
+  };
+}
+
+// Kept per backend and per admin, so neither another server nor another
+// account on this browser sees them.
+function storageKey(state: RootState): string {
+  return `savedviews_${state.backend.activeId}_${state.auth.email ?? 'anonymous'}_v1`;
+}
+
+function readLocalViews(state: RootState): SavedView[] {
+  try {
+    const stored = localStorage.getItem(storageKey(state));
+    return stored ? (JSON.parse(stored) as SavedView[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Server views are cached here too, so the menu still works when the server cannot be reached.
+function writeLocalViews(state: RootState): void {
+  localStorage.setItem(storageKey(state), JSON.stringify(state.savedViews.items));
+}
+
+function checkName(state: RootState, name: string, exceptId?: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Give the view a name');
+  const taken = state.savedViews.items.some(
+    (view) => view.id !== exceptId && view.name.toLowerCase() === trimmed.toLowerCase()
+  );
+  if (taken) throw new Error(`A view named "${trimmed}" already exists`);
+  return trimmed;
+}
+
+// Changes made to the cached copy would be lost or clash with the server's on the next load.
+function checkReachable(state: RootState): void {
+  if (state.savedViews.storage === 'unreachable') {
+    throw new Error('Saved views could not be loaded from the server. Retry before changing them');
+  }
+}
+
+// Resolves to the loaded views so the caller can apply the default one.
+export const loadSavedViews =
+  () =>
+  async (dispatch: Dispatch, getState: () => RootState): Promise<SavedView[]> => {
+    let remote: SavedView[] | null;
+    try {
+      remote = await apiClient.listSavedViews();
+    } catch (error) {
+      // A missing endpoint comes back as null; an error here is a blip or an outage, not a reason
+      // to keep the views in this browser from now on.
+      console.error('Could not load saved views from the server:', error);
+      const cached = readLocalViews(getState());
+      dispatch(setSavedViews({ items: cached, storage: 'unreachable' }));
+      return cached;
+    }
+    if (remote) {
+      dispatch(setSavedViews({ items: remote, storage: 'server' }));
+      writeLocalViews(getState());
+      return remote;
+    }
+    const local = readLocalViews(getState());
+    dispatch(setSavedViews({ items: local, storage: 'local' }));
+    return local;
+  };
+
+export const saveView =
+  (name: string, filters: SavedViewFilters) =>
+  async (dispatch: Dispatch, getState: () => RootState): Promise<SavedView> => {
+    const state = getState();
+    checkReachable(state);
+    const draft = { name: checkName(state, name), filters, isDefault: false };
+    const view: SavedView =
+      state.savedViews.storage === 'server'
+        ? await apiClient.createSavedView(draft)
+        : { ...draft, id: `view-${Date.now().toString(36)}`, updatedAt: new Date().toISOString() };
+    dispatch(upsertSavedView(view));
+    writeLocalViews(getState());
+    return view;
+  };
+
+async function changeView(
+  dispatch: Dispatch,
+  getState: () => RootState,
+  id: string,
+  changes: Partial<Pick<SavedView, 'name' | 'isDefault'>>
+): Promise<void> {
+  const state = getState();
+  checkReachable(state);
+  const current = state.savedViews.items.find((view) => view.id === id);
+  if (!current) return;
+  const view =
+    state.savedViews.storage === 'server'
+      ? await apiClient.updateSavedView(id, changes)
+      : { ...current, ...changes, updatedAt: new Date().toISOString() };
+  dispatch(upsertSavedView(view));
+  writeLocalViews(getState());
+}
+
+export const renameView =
+  (id: string, name: string) =>
+  async (dispatch: Dispatch, getState: () => RootState): Promise<void> =>
+    changeView(dispatch, getState, id, { name: checkName(getState(), name, id) });
+
+export const setDefaultView =
+  (id: string, isDefault: boolean) =>
+  async (dispatch: Dispatch, getState: () => RootState): Promise<void> =>
+    changeView(dispatch, getState, id, { isDefault });
+
+export const deleteView =
+  (id: string) =>
+  async (dispatch: Dispatch, getState: () => RootState): Promise<void> => {
+    checkReachable(getState());
+    if (getState().savedViews.storage === 'server') await apiClient.deleteSavedView(id);
+    dispatch(removeSavedView(id));
+    writeLocalViews(getState());
+  };
+
+export default savedViewsSlice.reducer;
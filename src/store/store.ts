@@ -1,10 +1,25 @@
 import { configureStore } from '@reduxjs/toolkit';
 import usersReducer from './usersSlice';
+import offlineReducer from './offlineSlice';
+import backendReducer from './backendSlice';
+import authReducer from './authSlice';
+import savedViewsReducer from './savedViewsSlice';
+import { usersApi } from './usersApi';
 
 export const store = configureStore({
   reducer: {
-    users: usersReducer
-  }
+    users: usersReducer,
+    offline: offlineReducer,
+    backend: backendReducer,
+    auth: authReducer,
+    savedViews: savedViewsReducer,
+    [usersApi.reducerPath]: usersApi.reducer
+  },
+  middleware: (getDefaultMiddleware) =>
+    getDefaultMiddleware({
+      // Mutation args (CSV files, image uploads) are kept in the api cache state.
+      serializableCheck: { ignoredPaths: [/^usersApi\.mutations\./] }
+    }).concat(usersApi.middleware)
 });
 
 export type RootState = ReturnType<typeof store.getState>;
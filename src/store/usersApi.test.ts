@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { User } from '../types';
+import type { UserListParams } from '../utils/apiClient';
+import { store } from './store';
+import { removeListedUsers, replaceListedUser, usersApi } from './usersApi';
+
+function makeUser(id: string, firstName: string): User {
+  return {
+    _id: id,
+    firstName,
+    lastName: 'Tester',
+    email: `${firstName.toLowerCase()}@example.com`,
+    phone: '',
+    gender: 'female',
+    city: 'Berlin',
+    department: 'Sales',
+    image: null
+  };
+}
+
+const firstPage: UserListParams = { skip: 0, limit: 2, sortKeys: [{ field: 'firstName', order: 'asc' }] };
+const secondPage: UserListParams = { ...firstPage, skip: 2 };
+
+function listed(params: UserListParams): Array<[string, string | undefined]> {
+  const page = usersApi.endpoints.listUsers.select(params)(store.getState()).data;
+  return (page?.users ?? []).map((user) => [user._id, user.city]);
+}
+
+function total(params: UserListParams): number | undefined {
+  return usersApi.endpoints.listUsers.select(params)(store.getState()).data?.total;
+}
+
+// The optimistic edits the delete, edit and live event handlers in App make to the cached lists.
+describe('cached user list edits', () => {
+  beforeEach(async () => {
+    store.dispatch(usersApi.util.resetApiState());
+    await store.dispatch(
+      usersApi.util.upsertQueryData('listUsers', firstPage, {
+        users: [makeUser('u1', 'Ada'), makeUser('u2', 'Grace')],
+        total: 3
+      })
+    );
+    await store.dispatch(
+      usersApi.util.upsertQueryData('listUsers', secondPage, { users: [makeUser('u3', 'Edith')], total: 3 })
+    );
+  });
+
+  it('replaces an updated user in place on whichever page lists it', () => {
+    store.dispatch(replaceListedUser({ ...makeUser('u3', 'Edith'), city: 'Paris' }));
+    expect(listed(firstPage)).toEqual([
+      ['u1', 'Berlin'],
+      ['u2', 'Berlin']
+    ]);
+    expect(listed(secondPage)).toEqual([['u3', 'Paris']]);
+  });
+
+  it('does not add a user no page lists', () => {
+    store.dispatch(replaceListedUser(makeUser('u4', 'Hedy')));
+    expect(listed(firstPage).map(([id]) => id)).toEqual(['u1', 'u2']);
+    expect(listed(secondPage).map(([id]) => id)).toEqual(['u3']);
+  });
+
+  it('drops deleted users and counts them out of the total', () => {
+    store.dispatch(removeListedUsers(['u1']));
+    expect(listed(firstPage).map(([id]) => id)).toEqual(['u2']);
+    expect(total(firstPage)).toBe(2);
+    expect(total(secondPage)).toBe(3);
+  });
+
+  it('undoes the edit when the server rejects it', () => {
+    const undo = store.dispatch(removeListedUsers(['u2']));
+    undo();
+    expect(listed(firstPage).map(([id]) => id)).toEqual(['u1', 'u2']);
+    expect(total(firstPage)).toBe(3);
+  });
+});
@@ -0,0 +1,351 @@
+import type { Dispatch } from '@reduxjs/toolkit';
+import { createApi, fakeBaseQuery } from '@reduxjs/toolkit/query/react';
+import type { ImportConfirmResult, NewUserForm, User, UserFacets, UsersPage } from '../types';
+import {
+  apiClient,
+  applyUserChanges,
+  toApiErrorPayload,
+  type ApiErrorPayload,
+  type UserFacetParams,
+  type UserListParams,
+  type UserUpdateFields,
+  type UserVersion
+} from '../utils/apiClient';
+import {
+  applyFormChanges,
+  applyQueuedMutations,
+  cacheDepartments,
+  cachePage,
+  enqueueMutation,
+  isProvisionalId,
+  listQueuedMutations,
+  pageCacheKey,
+  provisionalQueueId,
+  readCachedDepartments,
+  readCachedPage,
+  removeQueuedMutation,
+  toProvisionalUser,
+  updateQueuedMutation,
+  type QueuedMutation
+} from '../utils/offlineStore';
+import { setCachedAt, setOffline, setQueuedCount } from './offlineSlice';
+import type { AppDispatch, RootState } from './store';
+
+const LIST_ID = 'LIST';
+
+type QueryResult<T> = { data: T } | { error: ApiErrorPayload };
+
+// Only one user list is on screen, so a new list request supersedes any still in flight.
+let activeListController: AbortController | null = null;
+
+async function run<T>(call: () => Promise<T>): Promise<QueryResult<T>> {
+  try {
+    return { data: await call() };
+  } catch (error) {
+    return { error: toApiErrorPayload(error) };
+  }
+}
+
+// Like run(), but cancelled by RTK Query's signal and by the next list request alike.
+async function runListRequest<T>(
+  signal: AbortSignal,
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<QueryResult<T>> {
+  activeListController?.abort();
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal.addEventListener('abort', abort, { once: true });
+  activeListController = controller;
+  try {
+    return await run(() => call(controller.signal));
+  } finally {
+    signal.removeEventListener('abort', abort);
+    if (activeListController === controller) activeListController = null;
+  }
+}
+
+function isNetworkFailure(error: ApiErrorPayload): boolean {
+  return error.status === 0 && !error.aborted;
+}
+
+// IndexedDB is a best-effort cache; when it is unavailable we behave as if it were empty.
+async function fromOfflineStore<T>(read: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await read();
+  } catch (error) {
+    console.error('Offline store error:', error);
+    return undefined;
+  }
+}
+
+async function refreshQueuedCount(dispatch: Dispatch): Promise<void> {
+  const queue = await fromOfflineStore(listQueuedMutations);
+  dispatch(setQueuedCount(queue?.length ?? 0));
+}
+
+// Serves a fresh response and caches it, or falls back to the cached copy when the
+// backend cannot be reached.
+async function withOfflineCache<T>(
+  dispatch: Dispatch,
+  result: QueryResult<T>,
+  write: (value: T) => Promise<void>,
+  read: () => Promise<{ value: T; savedAt: string } | undefined>
+): Promise<QueryResult<T>> {
+  if ('data' in result) {
+    dispatch(setOffline(false));
+    void fromOfflineStore(() => write(result.data));
+    return result;
+  }
+  if (!isNetworkFailure(result.error)) return result;
+
+  dispatch(setOffline(true));
+  const cached = await fromOfflineStore(read);
+  if (!cached) return result;
+  dispatch(setCachedAt(cached.savedAt));
+  return { data: cached.value };
+}
+
+// Runs a mutation, or queues it for replay when the backend cannot be reached.
+async function runOrQueue<T>(
+  dispatch: Dispatch,
+  call: () => Promise<T>,
+  mutation: QueuedMutation,
+  queuedResult: (queueId: number) => T
+): Promise<QueryResult<T>> {
+  const result = await run(call);
+  if ('data' in result || !isNetworkFailure(result.error)) return result;
+
+  const queueId = await fromOfflineStore(() => enqueueMutation(mutation));
+  if (queueId === undefined) return result;
+  dispatch(setOffline(true));
+  await refreshQueuedCount(dispatch);
+  return { data: queuedResult(queueId) };
+}
+
+// Users created offline only exist in the queue, so edits to them amend the queued create.
+async function amendQueuedCreate(
+  dispatch: Dispatch,
+  id: string,
+  amend: (entry: Extract<QueuedMutation, { kind: 'create' }>) => Promise<void>
+): Promise<QueryResult<void>> {
+  const queue = await fromOfflineStore(listQueuedMutations);
+  const entry = queue?.find((item) => item.id === provisionalQueueId(id));
+  if (!entry || entry.kind !== 'create') {
+    return { error: { status: 404, parsed: { message: 'Queued user not found', details: [] } } };
+  }
+  await fromOfflineStore(() => amend(entry));
+  await refreshQueuedCount(dispatch);
+  return { data: undefined };
+}
+
+function userLabel(user: Pick<User, 'firstName' | 'lastName'> | undefined, fallback: string): string {
+  const name = `${user?.firstName ?? ''} ${user?.lastName ?? ''}`.trim();
+  return name || fallback;
+}
+
+export const usersApi = createApi({
+  reducerPath: 'usersApi',
+  baseQuery: fakeBaseQuery<ApiErrorPayload>(),
+  tagTypes: ['User', 'Department', 'DeletedUser'],
+  keepUnusedDataFor: 300,
+  endpoints: (builder) => ({
+    listUsers: builder.query<UsersPage, UserListParams>({
+      queryFn: async (params, { signal, dispatch }) => {
+        const result = await runListRequest(signal, (listSignal) => apiClient.listUsers(params, listSignal));
+        const key = pageCacheKey(params);
+        return withOfflineCache(
+          dispatch,
+          result,
+          (page) => cachePage(key, page),
+          async () => {
+            const cached = await readCachedPage(key);
+            if (!cached) return undefined;
+            const queue = (await fromOfflineStore(listQueuedMutations)) ?? [];
+            return { ...cached, value: applyQueuedMutations(cached.value, queue, params.skip === 0) };
+          }
+        );
+      },
+      providesTags: (result) => [
+        { type: 'User', id: LIST_ID },
+        ...(result?.users ?? []).map((user) => ({ type: 'User' as const, id: user._id }))
+      ]
+    }),
+    // Only fetched when the list response carries no facets of its own; null means unsupported.
+    listFacets: builder.query<UserFacets | null, UserFacetParams>({
+      queryFn: (params, { signal }) => run(() => apiClient.listFacets(params, signal)),
+      providesTags: [{ type: 'User', id: LIST_ID }]
+    }),
+    listDepartments: builder.query<string[], void>({
+      queryFn: async (_arg, { dispatch }) =>
+        withOfflineCache(
+          dispatch,
+          await run(() => apiClient.listDepartments()),
+          cacheDepartments,
+          readCachedDepartments
+        ),
+      providesTags: [{ type: 'Department', id: LIST_ID }]
+    }),
+    getUser: builder.query<User, string>({
+      queryFn: (id) => run(() => apiClient.getUser(id)),
+      providesTags: (_result, _error, id) => [{ type: 'User', id }]
+    }),
+    listDeletedUsers: builder.query<UsersPage, void>({
+      queryFn: () => run(() => apiClient.listDeletedUsers()),
+      providesTags: [{ type: 'DeletedUser', id: LIST_ID }]
+    }),
+    createUser: builder.mutation<User, NewUserForm>({
+      queryFn: (form, { dispatch }) =>
+        runOrQueue(
+          dispatch,
+          () => apiClient.createUser(form),
+          { kind: 'create', form, label: `Create ${userLabel(form, 'user')}`, queuedAt: new Date().toISOString() },
+          (queueId) => toProvisionalUser(queueId, form)
+        ),
+      invalidatesTags: [
+        { type: 'User', id: LIST_ID },
+        { type: 'Department', id: LIST_ID }
+      ]
+    }),
+    updateUser: builder.mutation<
+      User,
+      { id: string; changes: UserUpdateFields; original: User; version?: UserVersion }
+    >({
+      queryFn: async ({ id, changes, original, version }, { dispatch }) => {
+        if (isProvisionalId(id)) {
+          const amended = await amendQueuedCreate(dispatch, id, (entry) =>
+            updateQueuedMutation({ ...entry, form: applyFormChanges(entry.form, changes) })
+          );
+          return 'data' in amended ? { data: applyUserChanges(original, changes) } : amended;
+        }
+        return runOrQueue(
+          dispatch,
+          () => apiClient.updateUser(id, changes, version),
+          {
+            kind: 'update',
+            userId: id,
+            changes,
+            version,
+            label: `Update ${userLabel(original, 'user')}`,
+            queuedAt: new Date().toISOString()
+          },
+          () => applyUserChanges(original, changes)
+        );
+      },
+      invalidatesTags: (_result, _error, { id }) => [
+        { type: 'User', id },
+        { type: 'Department', id: LIST_ID }
+      ]
+    }),
+    deleteUser: builder.mutation<void, string>({
+      queryFn: (id, { dispatch }) => {
+        if (isProvisionalId(id)) {
+          return amendQueuedCreate(dispatch, id, (entry) => removeQueuedMutation(entry.id ?? -1));
+        }
+        return runOrQueue(
+          dispatch,
+          () => apiClient.deleteUser(id),
+          { kind: 'delete', userId: id, label: `Delete user ${id}`, queuedAt: new Date().toISOString() },
+          () => undefined
+        );
+      },
+      invalidatesTags: [
+        { type: 'User', id: LIST_ID },
+        { type: 'DeletedUser', id: LIST_ID }
+      ]
+    }),
+    bulkDeleteUsers: builder.mutation<void, string[]>({
+      queryFn: (ids) => run(() => apiClient.bulkDeleteUsers(ids)),
+      invalidatesTags: [
+        { type: 'User', id: LIST_ID },
+        { type: 'DeletedUser', id: LIST_ID }
+      ]
+    }),
+    restoreUser: builder.mutation<void, string>({
+      queryFn: (id) => run(() => apiClient.restoreUser(id)),
+      invalidatesTags: [
+        { type: 'User', id: LIST_ID },
+        { type: 'DeletedUser', id: LIST_ID },
+        { type: 'Department', id: LIST_ID }
+      ]
+    }),
+    bulkRestoreUsers: builder.mutation<void, string[]>({
+      queryFn: (ids) => run(() => apiClient.bulkRestoreUsers(ids)),
+      invalidatesTags: [
+        { type: 'User', id: LIST_ID },
+        { type: 'DeletedUser', id: LIST_ID },
+        { type: 'Department', id: LIST_ID }
+      ]
+    }),
+    permanentlyDeleteUser: builder.mutation<void, string>({
+      queryFn: (id) => run(() => apiClient.permanentlyDeleteUser(id)),
+      invalidatesTags: [
+        { type: 'DeletedUser', id: LIST_ID },
+        { type: 'Department', id: LIST_ID }
+      ]
+    }),
+    bulkPermanentlyDeleteUsers: builder.mutation<void, string[]>({
+      queryFn: (ids) => run(() => apiClient.bulkPermanentlyDeleteUsers(ids)),
+      invalidatesTags: [
+        { type: 'DeletedUser', id: LIST_ID },
+        { type: 'Department', id: LIST_ID }
+      ]
+    }),
+    confirmImport: builder.mutation<ImportConfirmResult, File>({
+      queryFn: (file) => run(() => apiClient.confirmImport(file)),
+      invalidatesTags: [
+        { type: 'User', id: LIST_ID },
+        { type: 'Department', id: LIST_ID }
+      ]
+    })
+  })
+});
+
+export const refreshUserLists = () =>
+  usersApi.util.invalidateTags([
+    { type: 'User', id: LIST_ID },
+    { type: 'Department', id: LIST_ID },
+    { type: 'DeletedUser', id: LIST_ID }
+  ]);
+
+// Optimistic edits to every cached page of the user list, so paging back shows them too.
+// The returned function undoes them, e.g. when the server rejects the change.
+export const patchUserLists =
+  (recipe: (page: UsersPage) => void) =>
+  (dispatch: AppDispatch, getState: () => RootState): (() => void) => {
+    const patches = usersApi.util
+      .selectCachedArgsForQuery(getState(), 'listUsers')
+      .map((params) => dispatch(usersApi.util.updateQueryData('listUsers', params, recipe)));
+    return () => patches.forEach((patch) => patch.undo());
+  };
+
+// Pages that do not list the user are left alone.
+export const replaceListedUser = (user: User) =>
+  patchUserLists((page) => {
+    const index = page.users.findIndex((listed) => listed._id === user._id);
+    if (index !== -1) page.users[index] = user;
+  });
+
+export const removeListedUsers = (ids: string[]) =>
+  patchUserLists((page) => {
+    const kept = page.users.filter((user) => !ids.includes(user._id));
+    page.total -= page.users.length - kept.length;
+    page.users = kept;
+  });
+
+export const {
+  useListUsersQuery,
+  useListFacetsQuery,
+  useListDepartmentsQuery,
+  useListDeletedUsersQuery,
+  useGetUserQuery,
+  useLazyGetUserQuery,
+  useCreateUserMutation,
+  useUpdateUserMutation,
+  useDeleteUserMutation,
+  useBulkDeleteUsersMutation,
+  useRestoreUserMutation,
+  useBulkRestoreUsersMutation,
+  usePermanentlyDeleteUserMutation,
+  useBulkPermanentlyDeleteUsersMutation,
+  useConfirmImportMutation
+} = usersApi;
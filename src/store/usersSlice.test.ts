@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import reducer, { clearRemoteChange, markRemoteChange } from './usersSlice';
+
+// The badges the live event stream drives (see the realtime handler in App).
+describe('usersSlice realtime handling', () => {
+  it('marks and clears who changed a user', () => {
+    const marked = reducer(undefined, markRemoteChange({ userId: 'u1', actor: 'bob@example.com' }));
+    expect(marked.remoteChanges).toEqual({ u1: 'bob@example.com' });
+
+    const remarked = reducer(marked, markRemoteChange({ userId: 'u1', actor: 'eve@example.com' }));
+    expect(remarked.remoteChanges).toEqual({ u1: 'eve@example.com' });
+
+    expect(reducer(remarked, clearRemoteChange('u1')).remoteChanges).toEqual({});
+  });
+});
@@ -1,81 +1,88 @@
 import { createSlice, type PayloadAction } from '@reduxjs/toolkit';
-import type { RateLimitInfo, User } from '../types';
+import type { AdvancedQuery, RateLimitInfo, SortKey } from '../types';
+import { EMPTY_QUERY } from '../utils/advancedQuery';
+import { readListView, sameSelection, sameSortKeys, type ListView } from '../utils/routing';
+import type { LiftedSearch } from '../utils/searchSyntax';
+import { logout } from './authSlice';
 
 export type GenderFilter = 'all' | 'male' | 'female';
-export type UserSortBy = 'firstName' | 'lastName' | 'department' | 'city';
-export type SortOrder = 'asc' | 'desc';
+export type UserSortBy = SortKey['field'];
+export type SortOrder = SortKey['order'];
 
 interface UsersState {
-  items: User[];
-  departments: string[];
   searchQuery: string;
   genderFilter: GenderFilter;
-  departmentFilter: string;
+  departmentFilters: string[];
+  cityFilters: string[];
   selectedUsers: string[];
   bulkMode: boolean;
   currentPage: number;
-  totalUsers: number;
-  sortBy: UserSortBy;
-  sortOrder: SortOrder;
-  isLoading: boolean;
+  // Applied in order; never empty.
+  sortKeys: SortKey[];
+  advancedQuery: AdvancedQuery;
   rateLimitInfo: RateLimitInfo | null;
+  remoteChanges: Record<string, string>;
 }
 
+// UI state only; the listed users, their total and the departments are read from usersApi.
+// The list view starts from the address bar so a shared link opens on the same filters and page.
 const initialState: UsersState = {
-  items: [],
-  departments: [],
-  searchQuery: '',
-  genderFilter: 'all',
-  departmentFilter: 'all',
+  ...readListView(window.location.search),
   selectedUsers: [],
   bulkMode: false,
-  currentPage: 1,
-  totalUsers: 0,
-  sortBy: 'firstName',
-  sortOrder: 'asc',
-  isLoading: false,
-  rateLimitInfo: null
+  rateLimitInfo: null,
+  remoteChanges: {}
 };
 
 const usersSlice = createSlice({
   name: 'users',
   initialState,
   reducers: {
-    setUsers(state, action: PayloadAction<User[]>) {
-      state.items = action.payload;
-    },
-    addUserToFront(state, action: PayloadAction<User>) {
-      state.items = [action.payload, ...state.items];
-    },
-    updateUser(state, action: PayloadAction<User>) {
-      const index = state.items.findIndex((user) => user._id === action.payload._id);
-      if (index !== -1) {
-        state.items[index] = action.payload;
-      }
-    },
-    removeUser(state, action: PayloadAction<string>) {
-      state.items = state.items.filter((user) => user._id !== action.payload);
-    },
-    clearUsers(state) {
-      state.items = [];
-      state.totalUsers = 0;
-    },
-    setDepartments(state, action: PayloadAction<string[]>) {
-      state.departments = action.payload;
-    },
+    // Any change to what is listed starts again from the first page.
     setSearchQuery(state, action: PayloadAction<string>) {
+      if (state.searchQuery === action.payload) return;
       state.searchQuery = action.payload;
+      state.currentPage = 1;
     },
     setGenderFilter(state, action: PayloadAction<GenderFilter>) {
+      if (state.genderFilter === action.payload) return;
       state.genderFilter = action.payload;
+      state.currentPage = 1;
     },
-    setDepartmentFilter(state, action: PayloadAction<string>) {
-      state.departmentFilter = action.payload;
+    setDepartmentFilters(state, action: PayloadAction<string[]>) {
+      if (sameSelection(state.departmentFilters, action.payload)) return;
+      state.departmentFilters = action.payload;
+      state.currentPage = 1;
+    },
+    setCityFilters(state, action: PayloadAction<string[]>) {
+      if (sameSelection(state.cityFilters, action.payload)) return;
+      state.cityFilters = action.payload;
+      state.currentPage = 1;
     },
     resetFilters(state) {
       state.searchQuery = '';
       state.genderFilter = 'all';
-      state.departmentFilter = 'all';
+      state.departmentFilters = [];
+      state.cityFilters = [];
+      state.advancedQuery = EMPTY_QUERY;
+      state.currentPage = 1;
+    },
+    setAdvancedQuery(state, action: PayloadAction<AdvancedQuery>) {
+      state.advancedQuery = action.payload;
+      state.currentPage = 1;
+    },
+    // Restores a whole view from the address bar, page included.
+    // Typed departments and cities add to the selection; a typed gender replaces it.
+    applySearch(state, action: PayloadAction<LiftedSearch>) {
+      const { searchQuery, genderFilter, departments, cities } = action.payload;
+      state.searchQuery = searchQuery;
+      if (genderFilter) state.genderFilter = genderFilter;
+      state.departmentFilters = [...new Set([...state.departmentFilters, ...departments])];
+      state.cityFilters = [...new Set([...state.cityFilters, ...cities])];
+      state.currentPage = 1;
+    },
+    applyListView(state, action: PayloadAction<ListView>) {
+      Object.assign(state, action.payload);
     },
     setSelectedUsers(state, action: PayloadAction<string[]>) {
       state.selectedUsers = action.payload;
@@ -97,45 +104,50 @@ const usersSlice = createSlice({
     setCurrentPage(state, action: PayloadAction<number>) {
       state.currentPage = action.payload;
     },
-    setTotalUsers(state, action: PayloadAction<number>) {
-      state.totalUsers = action.payload;
-    },
-    setSortBy(state, action: PayloadAction<UserSortBy>) {
-      state.sortBy = action.payload;
-    },
-    setSortOrder(state, action: PayloadAction<SortOrder>) {
-      state.sortOrder = action.payload;
-    },
-    setIsLoading(state, action: PayloadAction<boolean>) {
-      state.isLoading = action.payload;
+    setSortKeys(state, action: PayloadAction<SortKey[]>) {
+      if (action.payload.length === 0 || sameSortKeys(state.sortKeys, action.payload)) return;
+      state.sortKeys = action.payload;
+      state.currentPage = 1;
     },
     setRateLimitInfo(state, action: PayloadAction<RateLimitInfo | null>) {
       state.rateLimitInfo = action.payload;
+    },
+    markRemoteChange(state, action: PayloadAction<{ userId: string; actor: string }>) {
+      state.remoteChanges[action.payload.userId] = action.payload.actor;
+    },
+    clearRemoteChange(state, action: PayloadAction<string>) {
+      delete state.remoteChanges[action.payload];
     }
+  },
+  extraReducers: (builder) => {
+    // Search, filters, sort and page survive so the next sign-in lands on the same view.
+    builder.addCase(logout, (state) => {
+      state.selectedUsers = [];
+      state.bulkMode = false;
+      state.rateLimitInfo = null;
+      state.remoteChanges = {};
+    });
   }
 });
 
 export const {
-  setUsers,
-  addUserToFront,
-  updateUser,
-  removeUser,
-  clearUsers,
-  setDepartments,
   setSearchQuery,
   setGenderFilter,
-  setDepartmentFilter,
+  setDepartmentFilters,
+  setCityFilters,
   resetFilters,
+  setAdvancedQuery,
+  applySearch,
+  applyListView,
   setSelectedUsers,
   toggleUserSelection,
   clearSelectedUsers,
   setBulkMode,
   setCurrentPage,
-  setTotalUsers,
-  setSortBy,
-  setSortOrder,
-  setIsLoading,
-  setRateLimitInfo
+  setSortKeys,
+  setRateLimitInfo,
+  markRemoteChange,
+  clearRemoteChange
 } = usersSlice.actions;
 
 export default usersSlice.reducer;
@@ -7,7 +7,8 @@ export interface User {
   lastName: string;
   email: string;
   phone: string;
-  gender: Gender;
+  // Empty when the server sent a value outside Gender; see contractIssues.
+  gender: Gender | '';
   city: string;
   department: string;
   image: string | null;
@@ -16,9 +17,56 @@ export interface User {
   createdBy?: string;
   updatedAt?: string;
   updatedBy?: string;
+  // Schema violations found in the server record, shown instead of silently coercing it.
+  contractIssues?: string[];
+  // Version tag from the server's ETag header, sent back as If-Match when saving.
+  etag?: string;
   [key: string]: unknown;
 }
 
+// Wire format of a user as the API sends it; normalizeUser turns it into a User.
+export interface UserRecord {
+  _id?: string;
+  id?: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+  gender: Gender;
+  city?: string;
+  department?: string;
+  image?: string | null;
+  status?: string;
+  createdAt?: string;
+  createdBy?: string;
+  updatedAt?: string;
+  updatedBy?: string;
+  deletedAt?: string | null;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Matching users per value. Each facet is counted with every filter applied
+// except its own selection, so picking one department still shows the others' counts.
+export interface UserFacets {
+  department: FacetCount[];
+  city: FacetCount[];
+}
+
+export interface UsersResponse {
+  users: UserRecord[];
+  total: number;
+  // Sent by backends that count facets alongside the page.
+  facets?: UserFacets;
+}
+
+export interface CapabilitiesResponse {
+  features: string[];
+}
+
 export interface NewUserForm {
   firstName: string;
   lastName: string;
@@ -41,6 +89,9 @@ export interface RecentUser {
 
 export interface RateLimitInfo {
   retryAfter: number;
+  // Epoch milliseconds when queued calls will be sent again.
+  resumeAt: number;
+  pendingCount: number;
 }
 
 export type ConfirmDialogType = 'danger' | 'info' | 'warning' | 'success';
@@ -75,6 +126,144 @@ export interface ImportPreview {
   errors: ImportErrorItem[];
 }
 
+export interface ImportConfirmResult {
+  imported?: number;
+}
+
+export interface UsersPage {
+  users: User[];
+  total: number;
+  facets?: UserFacets;
+}
+
+export type QueryCombinator = 'and' | 'or';
+
+export type QueryField = 'city' | 'department' | 'status' | 'emailDomain' | 'createdAt' | 'updatedAt';
+
+export type QueryOperator = 'is' | 'isNot' | 'contains' | 'onOrAfter' | 'onOrBefore' | 'between';
+
+export interface QueryCondition {
+  field: QueryField;
+  operator: QueryOperator;
+  value: string;
+  // Upper bound of a 'between' range.
+  valueTo?: string;
+}
+
+export interface QueryGroup {
+  combinator: QueryCombinator;
+  conditions: QueryCondition[];
+}
+
+// Advanced filter: groups joined by `combinator`, each joining its own conditions.
+// Sent to the list endpoint as JSON in the `filter` parameter.
+export interface AdvancedQuery {
+  combinator: QueryCombinator;
+  groups: QueryGroup[];
+}
+
+export type UserSortField = 'firstName' | 'lastName' | 'email' | 'department' | 'city' | 'createdAt' | 'updatedAt';
+
+// One step of an ordered sort: earlier keys decide, later ones break ties.
+export interface SortKey {
+  field: UserSortField;
+  order: 'asc' | 'desc';
+}
+
+// Filter and sort state captured by a saved view; the page number is not part of it.
+export interface SavedViewFilters {
+  searchQuery: string;
+  genderFilter: 'all' | Gender;
+  // Missing from views saved before departments and cities became multi-select,
+  // which kept a single departmentFilter ('all' for none) instead.
+  departmentFilters?: string[];
+  cityFilters?: string[];
+  departmentFilter?: string;
+  // Views saved before multi-key sorting have a single sortBy and sortOrder instead.
+  sortKeys?: SortKey[];
+  sortBy?: 'firstName' | 'lastName' | 'department' | 'city';
+  sortOrder?: 'asc' | 'desc';
+  // Missing from views saved before advanced filters existed.
+  advancedQuery?: AdvancedQuery;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: SavedViewFilters;
+  // Applied after sign-in unless the link already names a view.
+  isDefault: boolean;
+  updatedAt?: string;
+}
+
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export type Permission =
+  | 'users:create'
+  | 'users:edit'
+  | 'users:delete'
+  | 'users:restore'
+  | 'users:purge'
+  | 'users:import'
+  | 'users:export';
+
+export interface AuthProfile {
+  role: Role | null;
+  permissions: Permission[];
+}
+
+export interface LoginResponse {
+  access_token?: string;
+  refresh_token?: string;
+  role?: string;
+  permissions?: string[];
+  // Sent instead of tokens when the account must pass a second factor.
+  mfa_required?: boolean;
+  mfa_token?: string;
+  mfa_enrolled?: boolean;
+}
+
+export interface MfaChallenge {
+  email: string;
+  token: string;
+  enrolled: boolean;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauth_url: string;
+  recovery_codes?: string[];
+}
+
+export type MfaProof = { code: string } | { recovery_code: string };
+
+export interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  end_session_endpoint?: string;
+}
+
+export interface OidcTokenResponse {
+  // Required for the code exchange; refresh responses may leave it out.
+  id_token?: string;
+  access_token?: string;
+  refresh_token?: string;
+  token_type?: string;
+  expires_in?: number;
+}
+
+export interface MeResponse {
+  email?: string;
+  role?: string;
+  permissions?: string[];
+}
+
+// Short-lived, single-use pass that opens the event stream in place of the access token.
+export interface EventStreamTicket {
+  ticket: string;
+}
+
 export type AuthHeadersFn = () => Record<string, string>;
 
 export type NotificationKind = 'success' | 'error' | 'warning' | 'info';
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import type { AdvancedQuery } from '../types';
+import {
+  EMPTY_QUERY,
+  compactQuery,
+  countConditions,
+  decodeQuery,
+  describeCondition,
+  encodeQuery,
+  matchesQuery,
+  newGroup
+} from './advancedQuery';
+
+const salesOrBerlin: AdvancedQuery = {
+  combinator: 'or',
+  groups: [
+    { combinator: 'and', conditions: [{ field: 'department', operator: 'is', value: 'Sales' }] },
+    {
+      combinator: 'and',
+      conditions: [
+        { field: 'city', operator: 'is', value: 'Berlin' },
+        { field: 'createdAt', operator: 'between', value: '2024-01-01', valueTo: '2024-06-30' }
+      ]
+    }
+  ]
+};
+
+describe('encodeQuery and decodeQuery', () => {
+  it('round-trips a complete query', () => {
+    expect(decodeQuery(encodeQuery(salesOrBerlin))).toEqual(salesOrBerlin);
+  });
+
+  it('sends nothing for an empty or half-filled query', () => {
+    expect(encodeQuery(EMPTY_QUERY)).toBeUndefined();
+    expect(encodeQuery({ combinator: 'and', groups: [newGroup()] })).toBeUndefined();
+  });
+
+  it('drops what it cannot read instead of failing', () => {
+    const raw = JSON.stringify({
+      combinator: 'xor',
+      groups: [
+        {
+          combinator: 'or',
+          conditions: [
+            { field: 'city', operator: 'is', value: 'Paris' },
+            { field: 'salary', operator: 'is', value: '100' },
+            { field: 'city', operator: 'onOrAfter', value: 'Paris' },
+            { field: 'updatedAt', operator: 'onOrAfter', value: 'yesterday' }
+          ]
+        },
+        { conditions: 'none' }
+      ]
+    });
+    expect(decodeQuery(raw)).toEqual({
+      combinator: 'and',
+      groups: [{ combinator: 'or', conditions: [{ field: 'city', operator: 'is', value: 'Paris' }] }]
+    });
+    expect(decodeQuery('{not json')).toEqual(EMPTY_QUERY);
+    expect(decodeQuery(null)).toEqual(EMPTY_QUERY);
+  });
+});
+
+describe('compactQuery', () => {
+  it('removes incomplete conditions and the groups they empty', () => {
+    const query: AdvancedQuery = {
+      combinator: 'and',
+      groups: [
+        newGroup(),
+        {
+          combinator: 'and',
+          conditions: [
+            { field: 'city', operator: 'is', value: 'Rome' },
+            { field: 'createdAt', operator: 'between', value: '2024-01-01' }
+          ]
+        }
+      ]
+    };
+    expect(compactQuery(query)).toEqual({
+      combinator: 'and',
+      groups: [{ combinator: 'and', conditions: [{ field: 'city', operator: 'is', value: 'Rome' }] }]
+    });
+    expect(countConditions(query)).toBe(3);
+  });
+});
+
+describe('matchesQuery', () => {
+  const alice = { email: 'alice@acme.io', city: 'Berlin', department: 'Support', createdAt: '2024-03-15T09:00:00Z' };
+  const bob = { email: 'bob@example.com', city: 'Berlin', department: 'Support', createdAt: '2023-12-31T23:00:00Z' };
+
+  it('joins groups with the query combinator and conditions with the group one', () => {
+    expect(matchesQuery(alice, salesOrBerlin)).toBe(true);
+    expect(matchesQuery(bob, salesOrBerlin)).toBe(false);
+    expect(matchesQuery({ ...bob, department: 'sales' }, salesOrBerlin)).toBe(true);
+  });
+
+  it('compares text without case and email domains by their part after @', () => {
+    const query: AdvancedQuery = {
+      combinator: 'and',
+      groups: [
+        {
+          combinator: 'and',
+          conditions: [
+            { field: 'emailDomain', operator: 'is', value: 'ACME.io' },
+            { field: 'city', operator: 'contains', value: 'erl' },
+            { field: 'department', operator: 'isNot', value: 'sales' }
+          ]
+        }
+      ]
+    };
+    expect(matchesQuery(alice, query)).toBe(true);
+    expect(matchesQuery(bob, query)).toBe(false);
+  });
+
+  it('matches everything without groups and nothing without a date', () => {
+    expect(matchesQuery(bob, EMPTY_QUERY)).toBe(true);
+    const created: AdvancedQuery = {
+      combinator: 'and',
+      groups: [{ combinator: 'and', conditions: [{ field: 'createdAt', operator: 'onOrBefore', value: '2030-01-01' }] }]
+    };
+    expect(matchesQuery({ email: 'carol@example.com' }, created)).toBe(false);
+  });
+});
+
+describe('describeCondition', () => {
+  it('quotes text values and spells out ranges', () => {
+    expect(describeCondition({ field: 'city', operator: 'isNot', value: 'Oslo' })).toBe('City is not "Oslo"');
+    expect(
+      describeCondition({ field: 'updatedAt', operator: 'between', value: '2024-01-01', valueTo: '2024-02-01' })
+    ).toBe('Updated between 2024-01-01 and 2024-02-01');
+  });
+});
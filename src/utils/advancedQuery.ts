@@ -0,0 +1,153 @@
+import type {
+  AdvancedQuery,
+  QueryCombinator,
+  QueryCondition,
+  QueryField,
+  QueryGroup,
+  QueryOperator
+} from '../types';
+
+// Building, encoding and evaluating the advanced filter. The mock backend
+// evaluates it with matchesQuery, so both sides agree on the semantics.
+
+type FieldKind = 'text' | 'date';
+
+export const QUERY_FIELDS: Record<QueryField, { label: string; kind: FieldKind }> = {
+  city: { label: 'City', kind: 'text' },
+  department: { label: 'Department', kind: 'text' },
+  status: { label: 'Status', kind: 'text' },
+  emailDomain: { label: 'Email domain', kind: 'text' },
+  createdAt: { label: 'Created', kind: 'date' },
+  updatedAt: { label: 'Updated', kind: 'date' }
+};
+
+export const OPERATORS: Record<FieldKind, QueryOperator[]> = {
+  text: ['is', 'isNot', 'contains'],
+  date: ['onOrAfter', 'onOrBefore', 'between']
+};
+
+export const OPERATOR_LABELS: Record<QueryOperator, string> = {
+  is: 'is',
+  isNot: 'is not',
+  contains: 'contains',
+  onOrAfter: 'on or after',
+  onOrBefore: 'on or before',
+  between: 'between'
+};
+
+export const EMPTY_QUERY: AdvancedQuery = { combinator: 'and', groups: [] };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const COMBINATORS: QueryCombinator[] = ['and', 'or'];
+
+export function newCondition(field: QueryField = 'city'): QueryCondition {
+  return { field, operator: OPERATORS[QUERY_FIELDS[field].kind][0], value: '' };
+}
+
+export function newGroup(): QueryGroup {
+  return { combinator: 'and', conditions: [newCondition()] };
+}
+
+export function isCompleteCondition(condition: QueryCondition): boolean {
+  if (QUERY_FIELDS[condition.field].kind === 'text') return condition.value.trim() !== '';
+  if (!DATE_PATTERN.test(condition.value)) return false;
+  return condition.operator !== 'between' || DATE_PATTERN.test(condition.valueTo ?? '');
+}
+
+// Drops half-filled conditions and the groups they leave empty.
+export function compactQuery(query: AdvancedQuery): AdvancedQuery {
+  const groups = query.groups
+    .map((group) => ({ ...group, conditions: group.conditions.filter(isCompleteCondition) }))
+    .filter((group) => group.conditions.length > 0);
+  return { combinator: query.combinator, groups };
+}
+
+export function countConditions(query: AdvancedQuery): number {
+  return query.groups.reduce((total, group) => total + group.conditions.length, 0);
+}
+
+// Undefined for an empty query, so no `filter` parameter is sent at all.
+export function encodeQuery(query: AdvancedQuery | undefined): string | undefined {
+  const compact = compactQuery(query ?? EMPTY_QUERY);
+  return compact.groups.length > 0 ? JSON.stringify(compact) : undefined;
+}
+
+function toCondition(raw: unknown): QueryCondition | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { field, operator, value, valueTo } = raw as Record<string, unknown>;
+  if (typeof field !== 'string' || !(field in QUERY_FIELDS)) return null;
+  const kind = QUERY_FIELDS[field as QueryField].kind;
+  if (!OPERATORS[kind].includes(operator as QueryOperator) || typeof value !== 'string') return null;
+  const condition: QueryCondition = { field: field as QueryField, operator: operator as QueryOperator, value };
+  if (typeof valueTo === 'string') condition.valueTo = valueTo;
+  return isCompleteCondition(condition) ? condition : null;
+}
+
+// Lenient: anything it cannot read is dropped rather than failing the whole filter.
+export function decodeQuery(raw: string | null | undefined): AdvancedQuery {
+  if (!raw) return EMPTY_QUERY;
+  try {
+    const data = JSON.parse(raw) as { combinator?: unknown; groups?: unknown };
+    const groups = (Array.isArray(data.groups) ? data.groups : [])
+      .map((group: { combinator?: unknown; conditions?: unknown }) => ({
+        combinator: COMBINATORS.find((value) => value === group?.combinator) ?? 'and',
+        conditions: (Array.isArray(group?.conditions) ? group.conditions : [])
+          .map(toCondition)
+          .filter((condition): condition is QueryCondition => condition !== null)
+      }))
+      .filter((group) => group.conditions.length > 0);
+    return { combinator: COMBINATORS.find((value) => value === data.combinator) ?? 'and', groups };
+  } catch {
+    return EMPTY_QUERY;
+  }
+}
+
+export function describeCondition(condition: QueryCondition): string {
+  const { label } = QUERY_FIELDS[condition.field];
+  const operator = OPERATOR_LABELS[condition.operator];
+  if (condition.operator === 'between') return `${label} ${operator} ${condition.value} and ${condition.valueTo}`;
+  const value = QUERY_FIELDS[condition.field].kind === 'text' ? `"${condition.value}"` : condition.value;
+  return `${label} ${operator} ${value}`;
+}
+
+export interface QueryableRecord {
+  email: string;
+  city?: string;
+  department?: string;
+  status?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+function fieldValue(record: QueryableRecord, field: QueryField): string {
+  if (field === 'emailDomain') return record.email.split('@')[1] ?? '';
+  return record[field] ?? '';
+}
+
+function matchesCondition(record: QueryableRecord, condition: QueryCondition): boolean {
+  const actual = fieldValue(record, condition.field);
+  if (QUERY_FIELDS[condition.field].kind === 'date') {
+    // Timestamps are ISO 8601, so their date part compares as a string.
+    const day = actual.slice(0, 10);
+    if (!day) return false;
+    if (condition.operator === 'onOrAfter') return day >= condition.value;
+    if (condition.operator === 'onOrBefore') return day <= condition.value;
+    return day >= condition.value && day <= (condition.valueTo ?? condition.value);
+  }
+  const left = actual.toLowerCase();
+  const right = condition.value.trim().toLowerCase();
+  if (condition.operator === 'contains') return left.includes(right);
+  if (condition.operator === 'isNot') return left !== right;
+  return left === right;
+}
+
+function combine<T>(items: T[], combinator: QueryCombinator, test: (item: T) => boolean): boolean {
+  return combinator === 'and' ? items.every(test) : items.some(test);
+}
+
+export function matchesQuery(record: QueryableRecord, query: AdvancedQuery): boolean {
+  if (query.groups.length === 0) return true;
+  return combine(query.groups, query.combinator, (group) =>
+    combine(group.conditions, group.combinator, (condition) => matchesCondition(record, condition))
+  );
+}
@@ -15,6 +15,8 @@ export interface ApiErrorBody {
 export interface ParsedApiError {
   message: string;
   details: string[];
+  // Messages from `errors[]` entries that name a field, keyed by the field. They are in `details` too.
+  fieldErrors?: Record<string, string>;
 }
 
 export async function parseApiError(response: Response): Promise<ParsedApiError> {
@@ -35,6 +37,7 @@ export async function parseApiError(response: Response): Promise<ParsedApiError>
           ? data.message.trim()
           : fallbackMessage;
 
+      const fieldErrors: Record<string, string> = {};
       const details: string[] = Array.isArray(data.errors)
         ? data.errors
             .map((error) => {
@@ -47,7 +50,10 @@ export async function parseApiError(response: Response): Promise<ParsedApiError>
                 'message' in error && typeof error.message === 'string' && error.message.trim()
                   ? error.message.trim()
                   : undefined;
-              if (field && value) return `${field}: ${value}`;
+              if (field && value) {
+                if (!(field in fieldErrors)) fieldErrors[field] = value;
+                return `${field}: ${value}`;
+              }
               return value ?? field ?? '';
             })
             .filter((entry): entry is string => Boolean(entry && entry.trim()))
@@ -57,10 +63,7 @@ export async function parseApiError(response: Response): Promise<ParsedApiError>
         details.push(data.detail.trim());
       }
 
-      return {
-        message,
-        details
-      };
+      return Object.keys(fieldErrors).length > 0 ? { message, details, fieldErrors } : { message, details };
     } catch {
       // fall through to raw text fallback
     }
@@ -77,3 +80,11 @@ export function formatApiErrorMessage(prefix: string, parsed: ParsedApiError): s
   const detailsText = parsed.details.length > 0 ? ` (${parsed.details.join('; ')})` : '';
   return prefix ? `${prefix}: ${parsed.message}${detailsText}` : `${parsed.message}${detailsText}`;
 }
+
+// Summary line for forms that already show `fieldErrors` next to their inputs,
+// so the same message is not repeated above the form.
+export function formatApiErrorSummary(parsed: ParsedApiError, shownFields: string[]): string {
+  const shown = shownFields.filter((field) => parsed.fieldErrors?.[field]);
+  const details = parsed.details.filter((detail) => !shown.some((field) => detail.startsWith(`${field}: `)));
+  return formatApiErrorMessage('', { message: parsed.message, details });
+}
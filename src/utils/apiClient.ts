@@ -0,0 +1,646 @@
+import { refreshOidcTokens } from '../auth/oidc';
+import { getRefreshToken, getSessionIssuer, getSessionToken, updateSessionTokens } from '../auth/session';
+import { publishSessionEvent } from '../auth/sessionBus';
+import { getActiveBackend, getApiBase, type BackendCapability } from '../components/config';
+import type {
+  AuthHeadersFn,
+  ImportConfirmResult,
+  ImportPreview,
+  LoginResponse,
+  MeResponse,
+  MfaEnrollment,
+  MfaProof,
+  NewUserForm,
+  RateLimitInfo,
+  SavedView,
+  SavedViewFilters,
+  SortKey,
+  User,
+  UserFacets,
+  UsersPage,
+  UsersResponse
+} from '../types';
+import { parseApiError, type ParsedApiError } from './api';
+import {
+  capabilitiesResponseSchema,
+  departmentsResponseSchema,
+  eventStreamTicketSchema,
+  importConfirmResultSchema,
+  importPreviewSchema,
+  loginResponseSchema,
+  meResponseSchema,
+  mfaEnrollmentSchema,
+  savedViewSchema,
+  savedViewsResponseSchema,
+  userFacetsSchema,
+  userRecordSchema,
+  usersResponseSchema
+} from './apiSchemas';
+import { reportContractViolation } from './contractReport';
+import { scheduleRequest, setRateLimitListener } from './requestScheduler';
+import { formatSchemaIssue, validate, type Schema, type SchemaIssue } from './schema';
+
+const REFRESH_PATH = '/auth/refresh';
+const NETWORK_ERROR_MESSAGE = 'Network error. Please ensure the backend is running and CORS is configured.';
+
+// Serializable form of ApiError, used where errors are stored in Redux state.
+export interface ApiErrorPayload {
+  status: number;
+  parsed: ParsedApiError;
+  aborted?: boolean;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly parsed: ParsedApiError;
+
+  constructor(status: number, parsed: ParsedApiError) {
+    super(parsed.message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.parsed = parsed;
+  }
+
+  toPayload(): ApiErrorPayload {
+    return { status: this.status, parsed: this.parsed };
+  }
+}
+
+function isApiErrorPayload(error: unknown): error is ApiErrorPayload {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'status' in error &&
+    typeof error.status === 'number' &&
+    'parsed' in error &&
+    typeof error.parsed === 'object' &&
+    error.parsed !== null
+  );
+}
+
+export interface ApiClientHandlers {
+  onUnauthorized?: (error: ApiError) => void;
+  onForbidden?: (error: ApiError) => void;
+  // Called whenever the rate-limit cooldown or its queue of pending calls changes; null once drained.
+  onRateLimited?: (info: RateLimitInfo | null) => void;
+}
+
+let handlers: ApiClientHandlers = {};
+
+export function setApiClientHandlers(next: ApiClientHandlers): void {
+  handlers = next;
+  setRateLimitListener(next.onRateLimited ?? null);
+}
+
+export const authHeaders: AuthHeadersFn = () => {
+  const token = getSessionToken();
+  const headers: Record<string, string> = {};
+  if (token && getActiveBackend().authStyle === 'bearer') {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+export function toApiErrorPayload(error: unknown): ApiErrorPayload {
+  if (error instanceof ApiError) return error.toPayload();
+  if (isApiErrorPayload(error)) return error;
+  if (isAbortError(error)) return { status: 0, parsed: { message: 'Request cancelled', details: [] }, aborted: true };
+  return { status: 0, parsed: toParsedApiError(error) };
+}
+
+export function toParsedApiError(error: unknown): ParsedApiError {
+  if (error instanceof ApiError || isApiErrorPayload(error)) return error.parsed;
+  if (error instanceof Error && error.message) return { message: error.message, details: [] };
+  return { message: 'Unknown error', details: [] };
+}
+
+// Another client changed the record since it was loaded (stale updatedAt or If-Match).
+export function isEditConflict(error: unknown): boolean {
+  const status = error instanceof ApiError || isApiErrorPayload(error) ? error.status : null;
+  return status === 409 || status === 412;
+}
+
+// The session ran out mid-request; the re-login overlay is already up.
+export function isSessionExpiredError(error: unknown): boolean {
+  return (error instanceof ApiError || isApiErrorPayload(error)) && error.status === 401;
+}
+
+// 401, 403 and 429 are already surfaced globally through the registered handlers,
+// and cancelled requests were superseded by a newer one.
+export function isHandledApiError(error: unknown): boolean {
+  if (isAbortError(error) || (isApiErrorPayload(error) && error.aborted)) return true;
+  const status = error instanceof ApiError || isApiErrorPayload(error) ? error.status : null;
+  return status === 401 || status === 403 || status === 429;
+}
+
+// Field problems are kept on the user as contractIssues rather than papered over.
+export function normalizeUser(raw: Record<string, unknown>): User {
+  const contractIssues = validate(userRecordSchema, raw).map(formatSchemaIssue);
+  const idValue = String(raw._id ?? raw.id ?? '');
+  const rawImage = typeof raw.image === 'string' ? raw.image : null;
+  const image =
+    rawImage && /^(https?|data|blob):/.test(rawImage)
+      ? rawImage
+      : rawImage
+        ? `${getApiBase()}${rawImage}`
+        : null;
+
+  return {
+    _id: idValue,
+    id: idValue,
+    firstName: String(raw.firstName ?? ''),
+    lastName: String(raw.lastName ?? ''),
+    email: String(raw.email ?? ''),
+    phone: String(raw.phone ?? ''),
+    gender: raw.gender === 'female' || raw.gender === 'male' ? raw.gender : '',
+    city: raw.city ? String(raw.city) : '',
+    department: raw.department ? String(raw.department) : '',
+    image,
+    status: raw.status ? String(raw.status) : undefined,
+    createdAt: raw.createdAt ? String(raw.createdAt) : undefined,
+    updatedAt: raw.updatedAt ? String(raw.updatedAt) : undefined,
+    deletedAt: raw.deletedAt ? String(raw.deletedAt) : undefined,
+    ...(contractIssues.length > 0 ? { contractIssues } : {})
+  };
+}
+
+// Arrays become one parameter per value, e.g. department=Sales&department=Legal.
+type QueryValue = string | number | string[] | undefined;
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: Record<string, QueryValue>;
+  json?: unknown;
+  body?: BodyInit;
+  headers?: Record<string, string>;
+  auth?: boolean;
+  signal?: AbortSignal;
+  // Set on the single replay after a silent token refresh.
+  isRetry?: boolean;
+}
+
+function buildUrl(path: string, query?: Record<string, QueryValue>): string {
+  const params = new URLSearchParams();
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (Array.isArray(value)) value.forEach((item) => params.append(key, item));
+    else if (value !== undefined && value !== '') params.append(key, String(value));
+  });
+  const search = params.toString();
+  return `${getApiBase()}${path}${search ? `?${search}` : ''}`;
+}
+
+async function send(url: string, init: RequestInit): Promise<Response> {
+  if (getActiveBackend().mock) {
+    const { mockFetch } = await import('../mock/mockBackend');
+    return mockFetch(url, init);
+  }
+  return fetch(url, init);
+}
+
+async function request(path: string, options: RequestOptions = {}): Promise<Response> {
+  const { method = 'GET', query, json, body, headers = {}, auth = true, signal, isRetry = false } = options;
+  const requestHeaders: Record<string, string> = {
+    ...(auth ? authHeaders() : {}),
+    ...headers
+  };
+  if (json !== undefined) {
+    requestHeaders['Content-Type'] = 'application/json';
+  }
+
+  const url = buildUrl(path, query);
+  let response: Response;
+  try {
+    response = await scheduleRequest(
+      () =>
+        send(url, {
+          method,
+          headers: requestHeaders,
+          body: json !== undefined ? JSON.stringify(json) : body,
+          credentials: getActiveBackend().authStyle === 'cookie' ? 'include' : 'same-origin',
+          signal
+        }),
+      { idempotent: method !== 'POST', signal }
+    );
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new ApiError(0, { message: NETWORK_ERROR_MESSAGE, details: [] });
+  }
+
+  if (response.ok) return response;
+
+  // The scheduler already waited out and replayed earlier 429s; this one exhausted its retries.
+  if (response.status === 429) {
+    throw new ApiError(429, { message: 'Rate limit exceeded', details: [] });
+  }
+
+  // An expired access token gets one silent refresh before the user is asked to sign in again.
+  if (response.status === 401 && auth && !isRetry && (await refreshAccessToken())) {
+    return request(path, { ...options, isRetry: true });
+  }
+
+  const apiError = new ApiError(response.status, await parseApiError(response));
+  if (response.status === 401 && auth) {
+    handlers.onUnauthorized?.(apiError);
+  }
+  if (response.status === 403) {
+    handlers.onForbidden?.(apiError);
+  }
+  throw apiError;
+}
+
+let activeRefresh: Promise<boolean> | null = null;
+
+async function refresh(): Promise<boolean> {
+  const refreshToken = getRefreshToken();
+  const { authStyle, oidc } = getActiveBackend();
+  const isBearer = authStyle === 'bearer';
+  try {
+    // Single sign-on sessions are extended by the identity provider, not the backend.
+    const data =
+      oidc && getSessionIssuer() === oidc.issuer
+        ? refreshToken && (await refreshOidcTokens(oidc, refreshToken))
+        : await requestJson(REFRESH_PATH, loginResponseSchema, {
+            method: 'POST',
+            // Without a refresh token the still-valid access token (or cookie) vouches for the session.
+            // Sent as plain headers so a 401 here cannot recurse into another refresh.
+            auth: false,
+            headers: refreshToken ? {} : authHeaders(),
+            json: refreshToken ? { refresh_token: refreshToken } : {}
+          });
+    if (!data || (isBearer && !data.access_token)) return false;
+    updateSessionTokens(data.access_token, data.refresh_token);
+    // Refresh tokens may rotate; other tabs must switch to the new pair too.
+    publishSessionEvent({
+      type: 'refresh',
+      backendId: getActiveBackend().id,
+      token: getSessionToken(),
+      refreshToken: getRefreshToken()
+    });
+    return true;
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+    return false;
+  }
+}
+
+// Single-flight, so a burst of 401s triggers one refresh.
+function refreshAccessToken(): Promise<boolean> {
+  if (!activeRefresh) {
+    activeRefresh = refresh().finally(() => {
+      activeRefresh = null;
+    });
+  }
+  return activeRefresh;
+}
+
+// Parses and validates a JSON response. Mismatches are reported, not thrown,
+// so a contract drift degrades the affected records instead of the whole view.
+// A body that is not JSON, or not even the expected kind of value, cannot be used and fails the request.
+async function readJson<T>(response: Response, endpoint: string, schema: Schema<T>): Promise<T> {
+  let data: unknown;
+  let issues: SchemaIssue[];
+  try {
+    data = await response.json();
+    issues = validate(schema, data);
+  } catch {
+    issues = [{ path: '', message: 'response body is not valid JSON', wrongType: true }];
+  }
+  reportContractViolation(endpoint, issues);
+  const unusable = issues.filter((issue) => issue.path === '' && issue.wrongType);
+  if (unusable.length > 0) {
+    throw new ApiError(response.status, {
+      message: 'The server sent an unexpected response',
+      details: unusable.map(formatSchemaIssue)
+    });
+  }
+  return data as T;
+}
+
+async function requestJson<T>(path: string, schema: Schema<T>, options: RequestOptions = {}): Promise<T> {
+  const response = await request(path, options);
+  return readJson(response, `${options.method ?? 'GET'} ${path}`, schema);
+}
+
+function withEtag(user: User, response: Response): User {
+  const etag = response.headers.get('ETag');
+  return etag ? { ...user, etag } : user;
+}
+
+function toUsersPage(data: Partial<UsersResponse>): UsersPage {
+  const users = (Array.isArray(data.users) ? data.users : []).map((user) =>
+    normalizeUser(user as unknown as Record<string, unknown>)
+  );
+  return {
+    users,
+    total: typeof data.total === 'number' ? data.total : users.length,
+    ...(data.facets ? { facets: data.facets } : {})
+  };
+}
+
+function csvFormData(file: File): FormData {
+  const formData = new FormData();
+  formData.append('file', file);
+  return formData;
+}
+
+export interface UserListParams {
+  skip: number;
+  limit: number;
+  sortKeys: SortKey[];
+  search?: string;
+  gender?: string;
+  departments?: string[];
+  cities?: string[];
+  // From search qualifiers, see utils/searchSyntax. Only sent to backends with
+  // the searchQualifiers capability.
+  statuses?: string[];
+  excludeTerms?: string[];
+  excludeDepartments?: string[];
+  excludeCities?: string[];
+  excludeStatuses?: string[];
+  // Encoded AdvancedQuery, see utils/advancedQuery.
+  filter?: string;
+}
+
+// The filters of a list request without its paging and order.
+export type UserFacetParams = Omit<UserListParams, 'skip' | 'limit' | 'sortKeys'>;
+
+export type UserUpdateFields = Partial<
+  Record<'firstName' | 'lastName' | 'email' | 'phone' | 'gender' | 'city' | 'department' | 'updatedBy', string>
+> & { image?: File | null };
+
+// The version of a user an edit was based on, checked by the server before it applies the edit.
+export interface UserVersion {
+  updatedAt?: string;
+  etag?: string;
+}
+
+// Local view of a user after an update, before the server confirms it.
+export function applyUserChanges(user: User, changes: UserUpdateFields): User {
+  const { image: _image, ...fields } = changes;
+  const next: User = { ...user };
+  Object.entries(fields).forEach(([field, value]) => {
+    if (typeof value === 'string' && value) next[field] = value;
+  });
+  return next;
+}
+
+function filterQuery(params: UserFacetParams): Record<string, QueryValue> {
+  return {
+    search: params.search?.trim(),
+    gender: params.gender,
+    department: params.departments,
+    city: params.cities,
+    status: params.statuses,
+    exclude_search: params.excludeTerms,
+    exclude_department: params.excludeDepartments,
+    exclude_city: params.excludeCities,
+    exclude_status: params.excludeStatuses,
+    filter: params.filter
+  };
+}
+
+function listQuery(params: UserListParams): Record<string, QueryValue> {
+  return {
+    skip: params.skip,
+    limit: params.limit,
+    // One repeated pair per key, in order. Only backends with the multiSort capability get more
+    // than one, since others read a repeated parameter as its last value or as an array.
+    sort_by: params.sortKeys.map((key) => key.field),
+    sort_order: params.sortKeys.map((key) => key.order),
+    ...filterQuery(params)
+  };
+}
+
+export const apiClient = {
+  login(email: string, password: string): Promise<LoginResponse> {
+    const body = new URLSearchParams();
+    body.append('email', email);
+    body.append('password', password);
+    return requestJson('/auth/login', loginResponseSchema, {
+      method: 'POST',
+      auth: false,
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body
+    });
+  },
+
+  // Both second-factor calls are authorized by the short-lived mfa_token from login, not a session.
+  enrollMfa(mfaToken: string): Promise<MfaEnrollment> {
+    return requestJson('/auth/mfa/enroll', mfaEnrollmentSchema, {
+      method: 'POST',
+      auth: false,
+      json: { mfa_token: mfaToken }
+    });
+  },
+
+  verifyMfa(mfaToken: string, proof: MfaProof): Promise<LoginResponse> {
+    return requestJson('/auth/mfa/verify', loginResponseSchema, {
+      method: 'POST',
+      auth: false,
+      json: { mfa_token: mfaToken, ...proof }
+    });
+  },
+
+  // Resolves to null when the backend has no /auth/me endpoint.
+  async getMe(): Promise<MeResponse | null> {
+    try {
+      return await requestJson('/auth/me', meResponseSchema);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  },
+
+  // Resolves to false when the session could not be extended.
+  refreshSession(): Promise<boolean> {
+    return refreshAccessToken();
+  },
+
+  // Answers the same whether or not the account exists, so it cannot be used to probe for emails.
+  async requestPasswordReset(email: string): Promise<void> {
+    await request('/auth/password/forgot', { method: 'POST', auth: false, json: { email } });
+  },
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    await request('/auth/password/reset', { method: 'POST', auth: false, json: { token, password } });
+  },
+
+  // A wrong current password comes back as a 400 `current_password` field error, not a 401.
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    await request('/auth/password/change', {
+      method: 'POST',
+      json: { current_password: currentPassword, new_password: newPassword }
+    });
+  },
+
+  // Resolves to null when the backend has no capability endpoint.
+  async getCapabilities(): Promise<BackendCapability[] | null> {
+    try {
+      const data = await requestJson('/api/capabilities', capabilitiesResponseSchema);
+      const features: unknown = Array.isArray(data) ? data : data.features;
+      return Array.isArray(features)
+        ? features.filter((item): item is BackendCapability => typeof item === 'string')
+        : null;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  },
+
+  // EventSource cannot send headers, so the stream is opened with this instead of the access token.
+  async createEventStreamTicket(): Promise<string> {
+    const { ticket } = await requestJson('/api/users/events/ticket', eventStreamTicketSchema, { method: 'POST' });
+    return ticket;
+  },
+
+  async listUsers(params: UserListParams, signal?: AbortSignal): Promise<UsersPage> {
+    const data = await requestJson('/api/users/', usersResponseSchema, { query: listQuery(params), signal });
+    return toUsersPage(data);
+  },
+
+  // Resolves to null when the backend has no facets endpoint.
+  async listFacets(params: UserFacetParams, signal?: AbortSignal): Promise<UserFacets | null> {
+    try {
+      return await requestJson('/api/users/facets', userFacetsSchema, { query: filterQuery(params), signal });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  },
+
+  async getUser(id: string): Promise<User> {
+    const path = `/api/users/${encodeURIComponent(id)}`;
+    const response = await request(path);
+    const record = await readJson(response, `GET ${path}`, userRecordSchema);
+    return withEtag(normalizeUser({ _id: id, ...record }), response);
+  },
+
+  async listDepartments(): Promise<string[]> {
+    const list: unknown = await requestJson('/api/users/departments', departmentsResponseSchema, {
+      query: { cb: Date.now() }
+    });
+    return Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [];
+  },
+
+  async listDeletedUsers(limit = 100): Promise<UsersPage> {
+    const data = await requestJson('/api/users/deleted', usersResponseSchema, { query: { limit } });
+    return toUsersPage(data);
+  },
+
+  async createUser(form: NewUserForm): Promise<User> {
+    const formData = new FormData();
+    formData.append('firstName', form.firstName || '');
+    formData.append('lastName', form.lastName || '');
+    formData.append('email', form.email || '');
+    formData.append('phone', form.phone || '');
+    formData.append('gender', form.gender || '');
+    formData.append('city', form.city || '');
+    formData.append('department', form.department || '');
+    if (form.image) {
+      formData.append('image', form.image);
+    }
+    const created = await requestJson('/api/users/', userRecordSchema, {
+      method: 'POST',
+      body: formData
+    });
+    return normalizeUser(created as unknown as Record<string, unknown>);
+  },
+
+  async updateUser(id: string, changes: UserUpdateFields, version?: UserVersion): Promise<User> {
+    const formData = new FormData();
+    Object.entries(changes).forEach(([field, value]) => {
+      if (value instanceof File) {
+        formData.append(field, value);
+      } else if (typeof value === 'string' && value) {
+        formData.append(field, value);
+      }
+    });
+    if (version?.updatedAt) {
+      formData.append('expectedUpdatedAt', version.updatedAt);
+    }
+    const path = `/api/users/${encodeURIComponent(id)}`;
+    const response = await request(path, {
+      method: 'PUT',
+      body: formData,
+      headers: version?.etag ? { 'If-Match': version.etag } : {}
+    });
+    const updated = await readJson(response, `PUT ${path}`, userRecordSchema);
+    return withEtag(normalizeUser({ _id: id, ...updated }), response);
+  },
+
+  async deleteUser(id: string): Promise<void> {
+    await request(`/api/users/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+
+  async restoreUser(id: string): Promise<void> {
+    await request(`/api/users/${encodeURIComponent(id)}/restore`, { method: 'POST' });
+  },
+
+  async permanentlyDeleteUser(id: string): Promise<void> {
+    await request(`/api/users/${encodeURIComponent(id)}/permanent`, { method: 'DELETE' });
+  },
+
+  async bulkDeleteUsers(ids: string[]): Promise<void> {
+    await request('/api/users/bulk-delete', { method: 'POST', json: { ids } });
+  },
+
+  async bulkRestoreUsers(ids: string[]): Promise<void> {
+    await request('/api/users/bulk-restore', { method: 'POST', json: { ids } });
+  },
+
+  async bulkPermanentlyDeleteUsers(ids: string[]): Promise<void> {
+    await request('/api/users/bulk-delete-permanent', { method: 'POST', json: { ids } });
+  },
+
+  previewImport(file: File): Promise<ImportPreview> {
+    return requestJson('/api/users/import/preview', importPreviewSchema, {
+      method: 'POST',
+      body: csvFormData(file)
+    });
+  },
+
+  confirmImport(file: File): Promise<ImportConfirmResult> {
+    return requestJson('/api/users/import/confirm', importConfirmResultSchema, {
+      method: 'POST',
+      body: csvFormData(file)
+    });
+  },
+
+  async exportUsers(params: UserListParams): Promise<Blob> {
+    const response = await request('/api/users/export', { query: listQuery(params) });
+    return response.blob();
+  },
+
+  // Views belong to the signed-in admin. Resolves to null when the backend has no views endpoint.
+  async listSavedViews(): Promise<SavedView[] | null> {
+    try {
+      return await requestJson('/api/views', savedViewsResponseSchema);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  },
+
+  createSavedView(view: { name: string; filters: SavedViewFilters; isDefault: boolean }): Promise<SavedView> {
+    return requestJson('/api/views', savedViewSchema, { method: 'POST', json: view });
+  },
+
+  // Making a view the default clears the flag on the admin's other views.
+  updateSavedView(id: string, changes: Partial<Pick<SavedView, 'name' | 'isDefault'>>): Promise<SavedView> {
+    return requestJson(`/api/views/${encodeURIComponent(id)}`, savedViewSchema, { method: 'PUT', json: changes });
+  },
+
+  async deleteSavedView(id: string): Promise<void> {
+    await request(`/api/views/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+};
+
+export type ApiClient = typeof apiClient;
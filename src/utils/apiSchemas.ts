@@ -0,0 +1,170 @@
+import type {
+  AdvancedQuery,
+  CapabilitiesResponse,
+  EventStreamTicket,
+  FacetCount,
+  ImportConfirmResult,
+  ImportErrorItem,
+  ImportPreview,
+  LoginResponse,
+  MeResponse,
+  MfaEnrollment,
+  OidcDiscovery,
+  OidcTokenResponse,
+  QueryCondition,
+  QueryGroup,
+  SavedView,
+  SavedViewFilters,
+  SortKey,
+  UserFacets,
+  UserRecord,
+  UsersResponse
+} from '../types';
+import { anyOf, array, boolean, nullable, number, object, oneOf, optional, refine, string } from './schema';
+
+// Runtime counterparts of the response types in types.ts.
+
+export const userRecordSchema = refine(
+  object<UserRecord>({
+    _id: optional(string()),
+    id: optional(string()),
+    firstName: string(),
+    lastName: string(),
+    email: string(),
+    phone: optional(string()),
+    gender: oneOf(['male', 'female'] as const),
+    city: optional(string()),
+    department: optional(string()),
+    image: optional(nullable(string())),
+    status: optional(string()),
+    createdAt: optional(string()),
+    createdBy: optional(string()),
+    updatedAt: optional(string()),
+    updatedBy: optional(string()),
+    deletedAt: optional(nullable(string()))
+  }),
+  (record) => Boolean(record._id || record.id),
+  'has neither _id nor id'
+);
+
+const facetCountsSchema = array(object<FacetCount>({ value: string(), count: number() }));
+
+export const userFacetsSchema = object<UserFacets>({
+  department: facetCountsSchema,
+  city: facetCountsSchema
+});
+
+export const usersResponseSchema = object<UsersResponse>({
+  users: array(userRecordSchema),
+  total: number(),
+  facets: optional(userFacetsSchema)
+});
+
+export const departmentsResponseSchema = array(string());
+
+const queryCombinatorSchema = oneOf(['and', 'or'] as const);
+
+const advancedQuerySchema = object<AdvancedQuery>({
+  combinator: queryCombinatorSchema,
+  groups: array(
+    object<QueryGroup>({
+      combinator: queryCombinatorSchema,
+      conditions: array(
+        object<QueryCondition>({
+          field: oneOf(['city', 'department', 'status', 'emailDomain', 'createdAt', 'updatedAt'] as const),
+          operator: oneOf(['is', 'isNot', 'contains', 'onOrAfter', 'onOrBefore', 'between'] as const),
+          value: string(),
+          valueTo: optional(string())
+        })
+      )
+    })
+  )
+});
+
+const sortKeySchema = object<SortKey>({
+  field: oneOf(['firstName', 'lastName', 'email', 'department', 'city', 'createdAt', 'updatedAt'] as const),
+  order: oneOf(['asc', 'desc'] as const)
+});
+
+const savedViewFiltersSchema = object<SavedViewFilters>({
+  searchQuery: string(),
+  genderFilter: oneOf(['all', 'male', 'female'] as const),
+  departmentFilters: optional(array(string())),
+  cityFilters: optional(array(string())),
+  departmentFilter: optional(string()),
+  sortKeys: optional(array(sortKeySchema)),
+  sortBy: optional(oneOf(['firstName', 'lastName', 'department', 'city'] as const)),
+  sortOrder: optional(oneOf(['asc', 'desc'] as const)),
+  advancedQuery: optional(advancedQuerySchema)
+});
+
+export const savedViewSchema = object<SavedView>({
+  id: string(),
+  name: string(),
+  filters: savedViewFiltersSchema,
+  isDefault: boolean(),
+  updatedAt: optional(string())
+});
+
+export const savedViewsResponseSchema = array(savedViewSchema);
+
+export const capabilitiesResponseSchema = anyOf(
+  object<CapabilitiesResponse>({ features: array(string()) }),
+  array(string())
+);
+
+export const loginResponseSchema = object<LoginResponse>({
+  access_token: optional(string()),
+  refresh_token: optional(string()),
+  role: optional(string()),
+  permissions: optional(array(string())),
+  mfa_required: optional(boolean()),
+  mfa_token: optional(string()),
+  mfa_enrolled: optional(boolean())
+});
+
+export const mfaEnrollmentSchema = object<MfaEnrollment>({
+  secret: string(),
+  otpauth_url: string(),
+  recovery_codes: optional(array(string()))
+});
+
+export const oidcDiscoverySchema = object<OidcDiscovery>({
+  issuer: string(),
+  authorization_endpoint: string(),
+  token_endpoint: string(),
+  end_session_endpoint: optional(string())
+});
+
+export const oidcTokenResponseSchema = object<OidcTokenResponse>({
+  id_token: optional(string()),
+  access_token: optional(string()),
+  refresh_token: optional(string()),
+  token_type: optional(string()),
+  expires_in: optional(number())
+});
+
+export const meResponseSchema = object<MeResponse>({
+  email: optional(string()),
+  role: optional(string()),
+  permissions: optional(array(string()))
+});
+
+export const eventStreamTicketSchema = object<EventStreamTicket>({ ticket: string() });
+
+const importErrorItemSchema = object<ImportErrorItem>({
+  row: number(),
+  email: string(),
+  reason: string()
+});
+
+export const importPreviewSchema = object<ImportPreview>({
+  total_rows: number(),
+  valid_users: number(),
+  invalid_users: number(),
+  errors: array(importErrorItemSchema)
+});
+
+export const importConfirmResultSchema = object<ImportConfirmResult>({
+  imported: optional(number())
+});
@@ -0,0 +1,46 @@
+import { formatSchemaIssue, type SchemaIssue } from './schema';
+
+export interface ContractViolation {
+  id: number;
+  endpoint: string;
+  issues: string[];
+  at: string;
+}
+
+const MAX_VIOLATIONS = 50;
+
+let violations: ContractViolation[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+// Records a response that did not match its schema. The data is still used unless
+// it is the wrong kind of value altogether; this report is how developers find out
+// the API and the UI disagree.
+export function reportContractViolation(endpoint: string, issues: SchemaIssue[]): void {
+  if (issues.length === 0) return;
+  const messages = issues.map(formatSchemaIssue);
+  if (import.meta.env.DEV) {
+    console.warn(`API contract violation in ${endpoint}:`, messages);
+  }
+  violations = [{ id: nextId++, endpoint, issues: messages, at: new Date().toISOString() }, ...violations].slice(
+    0,
+    MAX_VIOLATIONS
+  );
+  listeners.forEach((listener) => listener());
+}
+
+export function getContractViolations(): ContractViolation[] {
+  return violations;
+}
+
+export function clearContractViolations(): void {
+  violations = [];
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeContractViolations(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
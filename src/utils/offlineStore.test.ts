@@ -0,0 +1,108 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { clearSession, saveSession } from '../auth/session';
+import type { NewUserForm, User, UsersPage } from '../types';
+import {
+  applyQueuedMutations,
+  cachePage,
+  clearOfflineData,
+  enqueueMutation,
+  listQueuedMutations,
+  readCachedPage,
+  type QueuedMutation
+} from './offlineStore';
+
+function makeUser(id: string, firstName: string): User {
+  return {
+    _id: id,
+    firstName,
+    lastName: 'Tester',
+    email: `${firstName.toLowerCase()}@example.com`,
+    phone: '',
+    gender: 'female',
+    city: 'Berlin',
+    department: 'Sales',
+    image: null
+  };
+}
+
+const form: NewUserForm = {
+  firstName: 'Hedy',
+  lastName: 'Lamarr',
+  email: 'hedy@example.com',
+  phone: '+4930123456',
+  gender: 'female',
+  city: 'Vienna',
+  department: 'R&D',
+  image: null
+};
+
+const queuedAt = '2026-03-02T10:00:00Z';
+const page: UsersPage = { users: [makeUser('u1', 'Ada'), makeUser('u2', 'Grace')], total: 40 };
+
+describe('applyQueuedMutations', () => {
+  const queue: QueuedMutation[] = [
+    { id: 1, kind: 'update', userId: 'u2', changes: { city: 'Paris', phone: '' }, label: 'Update', queuedAt },
+    { id: 2, kind: 'delete', userId: 'u1', label: 'Delete', queuedAt },
+    { id: 3, kind: 'create', form, label: 'Create', queuedAt },
+    { id: 4, kind: 'delete', userId: 'u9', label: 'Delete elsewhere', queuedAt }
+  ];
+
+  it('lays queued changes over the first page in the order they were made', () => {
+    const merged = applyQueuedMutations(page, queue, true);
+    expect(merged.users.map((user) => [user._id, user.city, user.status])).toEqual([
+      ['offline-3', 'Vienna', 'pending'],
+      ['u2', 'Paris', undefined]
+    ]);
+    // One user deleted from this page and one created; the delete elsewhere is not counted here.
+    expect(merged.total).toBe(40);
+  });
+
+  it('adds users created offline only to the first page', () => {
+    const merged = applyQueuedMutations(page, queue, false);
+    expect(merged.users.map((user) => user._id)).toEqual(['u2']);
+    expect(merged.total).toBe(39);
+  });
+
+  it('leaves the cached page itself untouched', () => {
+    applyQueuedMutations(page, queue, true);
+    expect(page.users.map((user) => [user._id, user.city])).toEqual([
+      ['u1', 'Berlin'],
+      ['u2', 'Berlin']
+    ]);
+  });
+});
+
+describe('offline database', () => {
+  beforeEach(() => saveSession('token', 'ada@example.com'));
+
+  afterEach(async () => {
+    saveSession('token', 'ada@example.com');
+    await clearOfflineData();
+    saveSession('token', 'grace@example.com');
+    await clearOfflineData();
+    clearSession();
+  });
+
+  it('keeps cached pages and queued changes apart per admin', async () => {
+    await cachePage('page-1', page);
+    await enqueueMutation({ kind: 'delete', userId: 'u1', label: 'Delete Ada', queuedAt });
+
+    saveSession('token', 'grace@example.com');
+    expect(await readCachedPage('page-1')).toBeUndefined();
+    expect(await listQueuedMutations()).toEqual([]);
+
+    saveSession('token', 'ada@example.com');
+    expect((await readCachedPage('page-1'))?.value).toEqual(page);
+    expect((await listQueuedMutations()).map((entry) => entry.label)).toEqual(['Delete Ada']);
+  });
+
+  it('forgets everything on clearing', async () => {
+    await cachePage('page-1', page);
+    await enqueueMutation({ kind: 'create', form, label: 'Create Hedy', queuedAt });
+
+    await clearOfflineData();
+    expect(await readCachedPage('page-1')).toBeUndefined();
+    expect(await listQueuedMutations()).toEqual([]);
+  });
+});
@@ -0,0 +1,190 @@
+import { getSessionEmail } from '../auth/session';
+import { getActiveBackend } from '../components/config';
+import type { NewUserForm, User, UsersPage } from '../types';
+import { applyUserChanges, type UserUpdateFields, type UserVersion } from './apiClient';
+
+const DB_NAME = 'user-directory-offline';
+const DB_VERSION = 1;
+const PAGES_STORE = 'pages';
+const DEPARTMENTS_STORE = 'departments';
+const QUEUE_STORE = 'mutations';
+const DEPARTMENTS_KEY = 'all';
+const PROVISIONAL_ID_PREFIX = 'offline-';
+
+type StoreName = typeof PAGES_STORE | typeof DEPARTMENTS_STORE | typeof QUEUE_STORE;
+
+export interface CachedEntry<T> {
+  value: T;
+  savedAt: string;
+}
+
+interface QueuedMutationBase {
+  id?: number;
+  queuedAt: string;
+  label: string;
+}
+
+export type QueuedMutation = QueuedMutationBase &
+  (
+    | { kind: 'create'; form: NewUserForm }
+    | { kind: 'update'; userId: string; changes: UserUpdateFields; version?: UserVersion }
+    | { kind: 'delete'; userId: string }
+  );
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let dbName: string | null = null;
+
+// One database per backend profile and admin, so cached pages and queued changes
+// never cross servers or reach the next person who signs in on this device.
+function currentDbName(): string {
+  return `${DB_NAME}-${getActiveBackend().id}-${getSessionEmail() ?? 'anonymous'}`;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  const name = currentDbName();
+  if (dbPromise && dbName !== name) {
+    void dbPromise.then((db) => db.close()).catch(() => undefined);
+    dbPromise = null;
+  }
+  if (!dbPromise) {
+    dbName = name;
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PAGES_STORE)) db.createObjectStore(PAGES_STORE);
+        if (!db.objectStoreNames.contains(DEPARTMENTS_STORE)) db.createObjectStore(DEPARTMENTS_STORE);
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function pageCacheKey(params: object): string {
+  return JSON.stringify(params);
+}
+
+export async function cachePage(key: string, page: UsersPage): Promise<void> {
+  const entry: CachedEntry<UsersPage> = { value: page, savedAt: new Date().toISOString() };
+  await withStore(PAGES_STORE, 'readwrite', (store) => store.put(entry, key));
+}
+
+export async function readCachedPage(key: string): Promise<CachedEntry<UsersPage> | undefined> {
+  return withStore<CachedEntry<UsersPage> | undefined>(PAGES_STORE, 'readonly', (store) => store.get(key));
+}
+
+export async function cacheDepartments(departments: string[]): Promise<void> {
+  const entry: CachedEntry<string[]> = { value: departments, savedAt: new Date().toISOString() };
+  await withStore(DEPARTMENTS_STORE, 'readwrite', (store) => store.put(entry, DEPARTMENTS_KEY));
+}
+
+export async function readCachedDepartments(): Promise<CachedEntry<string[]> | undefined> {
+  return withStore<CachedEntry<string[]> | undefined>(DEPARTMENTS_STORE, 'readonly', (store) =>
+    store.get(DEPARTMENTS_KEY)
+  );
+}
+
+export async function enqueueMutation(mutation: QueuedMutation): Promise<number> {
+  const key = await withStore(QUEUE_STORE, 'readwrite', (store) => store.add(mutation));
+  return Number(key);
+}
+
+export async function listQueuedMutations(): Promise<QueuedMutation[]> {
+  return withStore<QueuedMutation[]>(QUEUE_STORE, 'readonly', (store) => store.getAll());
+}
+
+export async function updateQueuedMutation(mutation: QueuedMutation): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', (store) => store.put(mutation));
+}
+
+export async function removeQueuedMutation(id: number): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+// Drops the signed-in admin's cached pages and unsynced changes, e.g. on sign-out.
+export async function clearOfflineData(): Promise<void> {
+  const stores: StoreName[] = [PAGES_STORE, DEPARTMENTS_STORE, QUEUE_STORE];
+  await Promise.all(stores.map((name) => withStore(name, 'readwrite', (store) => store.clear())));
+}
+
+export function isProvisionalId(id: string): boolean {
+  return id.startsWith(PROVISIONAL_ID_PREFIX);
+}
+
+export function provisionalQueueId(id: string): number {
+  return Number(id.slice(PROVISIONAL_ID_PREFIX.length));
+}
+
+export function toProvisionalUser(id: number, form: NewUserForm): User {
+  const userId = `${PROVISIONAL_ID_PREFIX}${id}`;
+  return {
+    _id: userId,
+    id: userId,
+    firstName: form.firstName,
+    lastName: form.lastName,
+    email: form.email,
+    phone: form.phone,
+    gender: form.gender === 'female' ? 'female' : 'male',
+    city: form.city,
+    department: form.department,
+    image: null,
+    status: 'pending'
+  };
+}
+
+export function applyFormChanges(form: NewUserForm, changes: UserUpdateFields): NewUserForm {
+  const gender = changes.gender === 'male' || changes.gender === 'female' ? changes.gender : form.gender;
+  return {
+    firstName: changes.firstName || form.firstName,
+    lastName: changes.lastName || form.lastName,
+    email: changes.email || form.email,
+    phone: changes.phone || form.phone,
+    gender,
+    city: changes.city || form.city,
+    department: changes.department || form.department,
+    image: changes.image ?? form.image
+  };
+}
+
+// Lays changes that are still waiting in the queue over a cached page so the
+// offline view matches what the user already did.
+export function applyQueuedMutations(page: UsersPage, queue: QueuedMutation[], isFirstPage: boolean): UsersPage {
+  let users = [...page.users];
+  let total = page.total;
+
+  queue.forEach((entry) => {
+    if (entry.kind === 'delete') {
+      const before = users.length;
+      users = users.filter((user) => user._id !== entry.userId);
+      total -= before - users.length;
+    } else if (entry.kind === 'update') {
+      users = users.map((user) => (user._id === entry.userId ? applyUserChanges(user, entry.changes) : user));
+    } else if (isFirstPage && entry.id !== undefined) {
+      users = [toProvisionalUser(entry.id, entry.form), ...users];
+      total += 1;
+    }
+  });
+
+  return { users, total };
+}
@@ -0,0 +1,109 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NewUserForm } from '../types';
+import { ApiError } from './apiClient';
+import { clearOfflineData, enqueueMutation, listQueuedMutations } from './offlineStore';
+import { replayQueuedMutations } from './offlineSync';
+
+const api = vi.hoisted(() => ({
+  createUser: vi.fn(),
+  updateUser: vi.fn(),
+  deleteUser: vi.fn()
+}));
+
+vi.mock('./apiClient', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./apiClient')>()),
+  apiClient: api
+}));
+
+const form: NewUserForm = {
+  firstName: 'Hedy',
+  lastName: 'Lamarr',
+  email: 'hedy@example.com',
+  phone: '+4930123456',
+  gender: 'female',
+  city: 'Vienna',
+  department: 'R&D',
+  image: null
+};
+
+const queuedAt = '2026-03-02T10:00:00Z';
+
+function fail(status: number, message: string): ApiError {
+  return new ApiError(status, { message, details: [] });
+}
+
+async function queueThree(): Promise<void> {
+  await enqueueMutation({ kind: 'create', form, label: 'Create Hedy Lamarr', queuedAt });
+  await enqueueMutation({
+    kind: 'update',
+    userId: 'u1',
+    changes: { city: 'Paris' },
+    version: { updatedAt: '2026-03-01T08:00:00Z' },
+    label: 'Update Ada Tester',
+    queuedAt
+  });
+  await enqueueMutation({ kind: 'delete', userId: 'u2', label: 'Delete user u2', queuedAt });
+}
+
+async function queuedLabels(): Promise<string[]> {
+  return (await listQueuedMutations()).map((entry) => entry.label);
+}
+
+describe('replayQueuedMutations', () => {
+  const calls: string[] = [];
+
+  beforeEach(async () => {
+    await clearOfflineData();
+    calls.length = 0;
+    vi.resetAllMocks();
+    api.createUser.mockImplementation(async () => calls.push('create'));
+    api.updateUser.mockImplementation(async () => calls.push('update'));
+    api.deleteUser.mockImplementation(async () => calls.push('delete'));
+  });
+
+  it('sends queued changes in the order they were made and empties the queue', async () => {
+    await queueThree();
+    expect(await replayQueuedMutations()).toEqual({ replayed: 3, conflicts: [], remaining: 0 });
+    expect(calls).toEqual(['create', 'update', 'delete']);
+    expect(api.updateUser).toHaveBeenCalledWith('u1', { city: 'Paris' }, { updatedAt: '2026-03-01T08:00:00Z' });
+    expect(await queuedLabels()).toEqual([]);
+  });
+
+  it('reports and drops entries the server rejects, and carries on', async () => {
+    await queueThree();
+    api.updateUser.mockRejectedValueOnce(fail(409, 'Someone else changed this user'));
+    api.deleteUser.mockRejectedValueOnce(fail(404, 'User not found'));
+
+    expect(await replayQueuedMutations()).toEqual({
+      replayed: 1,
+      conflicts: [
+        'Could not sync "Update Ada Tester": Someone else changed this user',
+        'Could not sync "Delete user u2": User not found'
+      ],
+      remaining: 0
+    });
+    expect(await queuedLabels()).toEqual([]);
+  });
+
+  it.each([
+    ['the backend is still unreachable', 0],
+    ['the session expired', 401],
+    ['the server is rate limiting', 429]
+  ])('stops and keeps the rest of the queue when %s', async (_case, status) => {
+    await queueThree();
+    api.updateUser.mockRejectedValueOnce(fail(status, 'Try again later'));
+
+    expect(await replayQueuedMutations()).toEqual({ replayed: 1, conflicts: [], remaining: 2 });
+    expect(api.deleteUser).not.toHaveBeenCalled();
+    expect(await queuedLabels()).toEqual(['Update Ada Tester', 'Delete user u2']);
+  });
+
+  it('runs one replay at a time', async () => {
+    await queueThree();
+    const [first, second] = [replayQueuedMutations(), replayQueuedMutations()];
+    expect(second).toBe(first);
+    await first;
+    expect(calls).toEqual(['create', 'update', 'delete']);
+  });
+});
@@ -0,0 +1,58 @@
+import { formatApiErrorMessage } from './api';
+import { apiClient, toApiErrorPayload } from './apiClient';
+import { listQueuedMutations, removeQueuedMutation, type QueuedMutation } from './offlineStore';
+
+export interface ReplayReport {
+  replayed: number;
+  conflicts: string[];
+  remaining: number;
+}
+
+let activeReplay: Promise<ReplayReport> | null = null;
+
+function send(entry: QueuedMutation): Promise<unknown> {
+  switch (entry.kind) {
+    case 'create':
+      return apiClient.createUser(entry.form);
+    case 'update':
+      return apiClient.updateUser(entry.userId, entry.changes, entry.version);
+    case 'delete':
+      return apiClient.deleteUser(entry.userId);
+  }
+}
+
+async function replay(): Promise<ReplayReport> {
+  const queue = await listQueuedMutations();
+  const report: ReplayReport = { replayed: 0, conflicts: [], remaining: queue.length };
+
+  for (const entry of queue) {
+    if (entry.id === undefined) continue;
+    try {
+      await send(entry);
+      report.replayed += 1;
+    } catch (error) {
+      const payload = toApiErrorPayload(error);
+      // Still offline, throttled or signed out: keep this and later entries for the next attempt.
+      if (payload.status === 0 || payload.status === 401 || payload.status === 429) {
+        break;
+      }
+      report.conflicts.push(formatApiErrorMessage(`Could not sync "${entry.label}"`, payload.parsed));
+    }
+    await removeQueuedMutation(entry.id);
+    report.remaining -= 1;
+  }
+
+  return report;
+}
+
+// Sends queued offline changes in the order they were made. The server
+// rejecting an entry (e.g. the user was deleted meanwhile) is reported as a
+// conflict and the entry is dropped.
+export function replayQueuedMutations(): Promise<ReplayReport> {
+  if (!activeReplay) {
+    activeReplay = replay().finally(() => {
+      activeReplay = null;
+    });
+  }
+  return activeReplay;
+}
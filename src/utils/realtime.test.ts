@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { connectDirectoryEvents, parseDirectoryEvent, type DirectoryEvent } from './realtime';
+
+// Stands in for EventSource so tests can open, feed and drop the stream.
+class FakeEventSource {
+  url: string;
+  closed = false;
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  private listeners = new Map<string, Array<(message: MessageEvent<string>) => void>>();
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  addEventListener(type: string, listener: (message: MessageEvent<string>) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  emit(type: string, data: unknown): void {
+    const message = new MessageEvent('message', { data: JSON.stringify(data) });
+    this.listeners.get(type)?.forEach((listener) => listener(message));
+  }
+}
+
+const ada = { _id: 'u1', firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', gender: 'female' };
+
+describe('parseDirectoryEvent', () => {
+  it('reads the user and the actor from the payload', () => {
+    const event = parseDirectoryEvent('user-updated', JSON.stringify({ user: ada, actor: 'bob@example.com' }));
+    expect(event).toMatchObject({ type: 'user-updated', userId: 'u1', actor: 'bob@example.com' });
+    expect(event?.user?.firstName).toBe('Ada');
+  });
+
+  it('accepts a bare id and falls back to updatedBy for the actor', () => {
+    expect(parseDirectoryEvent('user-deleted', JSON.stringify({ id: 'u2', updatedBy: 'eve@example.com' }))).toEqual({
+      type: 'user-deleted',
+      userId: 'u2',
+      user: null,
+      actor: 'eve@example.com'
+    });
+  });
+
+  it('ignores payloads without an id and malformed JSON', () => {
+    expect(parseDirectoryEvent('user-created', JSON.stringify({ actor: 'bob@example.com' }))).toBeNull();
+    expect(parseDirectoryEvent('user-created', '{not json')).toBeNull();
+  });
+});
+
+describe('connectDirectoryEvents', () => {
+  let sources: FakeEventSource[];
+  let events: DirectoryEvent[];
+  let getTicket: ReturnType<typeof vi.fn<() => Promise<string | null>>>;
+
+  const connect = () =>
+    connectDirectoryEvents({
+      url: 'https://api.example.com/api/users/events',
+      onEvent: (event) => events.push(event),
+      getTicket,
+      createSource: (url) => {
+        const source = new FakeEventSource(url);
+        sources.push(source);
+        return source as unknown as EventSource;
+      },
+      initialDelayMs: 1000,
+      maxDelayMs: 8000
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sources = [];
+    events = [];
+    getTicket = vi.fn(() => Promise.resolve('ticket-1'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('opens the stream with a ticket instead of the access token', async () => {
+    const disconnect = connect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0].url).toBe('https://api.example.com/api/users/events?ticket=ticket-1');
+    expect(sources[0].url).not.toContain('access_token');
+    disconnect();
+  });
+
+  it('opens the stream without a ticket when cookies authorize it', async () => {
+    getTicket.mockResolvedValue(null);
+    const disconnect = connect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sources[0].url).toBe('https://api.example.com/api/users/events');
+    disconnect();
+  });
+
+  it('passes parsed events on and skips unreadable ones', async () => {
+    const disconnect = connect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    sources[0].emit('user-created', { user: ada, actor: 'bob@example.com' });
+    sources[0].emit('user-deleted', {});
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'user-created', userId: 'u1' });
+    disconnect();
+  });
+
+  it('asks for a new ticket on every reconnect', async () => {
+    getTicket.mockResolvedValueOnce('ticket-1').mockResolvedValueOnce('ticket-2');
+    const disconnect = connect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    sources[0].onerror?.();
+    expect(sources[0].closed).toBe(true);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(getTicket).toHaveBeenCalledTimes(2);
+    expect(sources).toHaveLength(2);
+    expect(sources[1].url).toContain('ticket=ticket-2');
+    disconnect();
+  });
+
+  it('retries with backoff when no ticket can be had', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    getTicket.mockRejectedValueOnce(new Error('offline'));
+    const disconnect = connect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sources).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(sources).toHaveLength(1);
+    disconnect();
+  });
+
+  it('stops reconnecting once closed', async () => {
+    const disconnect = connect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    disconnect();
+    sources[0].onerror?.();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0].closed).toBe(true);
+  });
+});
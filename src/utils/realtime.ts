@@ -0,0 +1,115 @@
+import { getActiveBackend, getApiBase } from '../components/config';
+import type { User } from '../types';
+import { apiClient, normalizeUser } from './apiClient';
+
+export const DIRECTORY_EVENT_TYPES = ['user-created', 'user-updated', 'user-deleted', 'user-restored'] as const;
+
+export type DirectoryEventType = (typeof DIRECTORY_EVENT_TYPES)[number];
+
+export interface DirectoryEvent {
+  type: DirectoryEventType;
+  userId: string;
+  user: User | null;
+  actor: string | null;
+}
+
+export interface DirectoryEventsOptions {
+  onEvent: (event: DirectoryEvent) => void;
+  url?: string;
+  // Resolves to a fresh stream ticket, or null when the session cookie authorizes the stream.
+  getTicket?: () => Promise<string | null>;
+  // Swappable so a local stand-in server (or a fake source) can drive the client.
+  createSource?: (url: string) => EventSource;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+
+export function parseDirectoryEvent(type: DirectoryEventType, data: string): DirectoryEvent | null {
+  try {
+    const payload = JSON.parse(data) as {
+      user?: Record<string, unknown>;
+      id?: string;
+      _id?: string;
+      actor?: string;
+      updatedBy?: string;
+    };
+    const user = payload.user && typeof payload.user === 'object' ? normalizeUser(payload.user) : null;
+    const userId = user?._id || String(payload._id ?? payload.id ?? '');
+    if (!userId) return null;
+    const actor = payload.actor ?? payload.updatedBy ?? (user?.updatedBy as string | undefined) ?? null;
+    return { type, userId, user, actor };
+  } catch {
+    return null;
+  }
+}
+
+// Subscribes to the directory's Server-Sent Events stream and reconnects with
+// exponential backoff (plus jitter) after drops. Returns a function that closes it.
+export function connectDirectoryEvents(options: DirectoryEventsOptions): () => void {
+  const {
+    onEvent,
+    createSource = (url) =>
+      new EventSource(url, { withCredentials: getActiveBackend().authStyle === 'cookie' }),
+    getTicket = () =>
+      getActiveBackend().authStyle === 'cookie' ? Promise.resolve(null) : apiClient.createEventStreamTicket(),
+    initialDelayMs = DEFAULT_INITIAL_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS
+  } = options;
+  const baseUrl = options.url ?? `${getApiBase()}/api/users/events`;
+
+  let source: EventSource | null = null;
+  let attempt = 0;
+  let retryTimer: number | undefined;
+  let closed = false;
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    const delay = Math.min(maxDelayMs, initialDelayMs * 2 ** attempt);
+    attempt += 1;
+    retryTimer = window.setTimeout(() => void connect(), delay / 2 + Math.random() * (delay / 2));
+  };
+
+  // Tickets are single-use, so every reconnect asks for a new one.
+  const connect = async () => {
+    if (closed) return;
+    let ticket: string | null;
+    try {
+      ticket = await getTicket();
+    } catch (error) {
+      console.error('Could not get an event stream ticket:', error);
+      scheduleReconnect();
+      return;
+    }
+    if (closed) return;
+    source = createSource(ticket ? `${baseUrl}?ticket=${encodeURIComponent(ticket)}` : baseUrl);
+
+    source.onopen = () => {
+      attempt = 0;
+    };
+
+    DIRECTORY_EVENT_TYPES.forEach((type) => {
+      source?.addEventListener(type, (message) => {
+        const event = parseDirectoryEvent(type, (message as MessageEvent<string>).data);
+        if (event) onEvent(event);
+      });
+    });
+
+    source.onerror = () => {
+      source?.close();
+      source = null;
+      scheduleReconnect();
+    };
+  };
+
+  void connect();
+
+  return () => {
+    closed = true;
+    window.clearTimeout(retryTimer);
+    source?.close();
+    source = null;
+  };
+}
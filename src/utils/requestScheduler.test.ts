@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Scheduler = typeof import('./requestScheduler');
+
+// The cooldown is module state, so every test gets a fresh copy of the scheduler.
+let scheduler: Scheduler;
+
+function reply(status: number, headers: Record<string, string> = {}, body?: unknown): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), { status, headers });
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+  vi.resetModules();
+  scheduler = await import('./requestScheduler');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('readRetryAfter', () => {
+  it('reads the header as seconds or as an HTTP date', async () => {
+    expect(await scheduler.readRetryAfter(reply(429, { 'Retry-After': '7' }))).toBe(7);
+    expect(await scheduler.readRetryAfter(reply(429, { 'Retry-After': 'Mon, 02 Mar 2026 10:00:30 GMT' }))).toBe(30);
+    expect(await scheduler.readRetryAfter(reply(429, { 'Retry-After': 'Mon, 02 Mar 2026 09:00:00 GMT' }))).toBe(0);
+  });
+
+  it('takes the longest of header and body, and a minute when neither says', async () => {
+    const both = reply(429, { 'Retry-After': '5' }, { detail: { retry_after: 12 } });
+    expect(await scheduler.readRetryAfter(both)).toBe(12);
+    expect(await scheduler.readRetryAfter(reply(429, { 'Retry-After': '20' }, { retry_after: 3 }))).toBe(20);
+    expect(await scheduler.readRetryAfter(reply(429, { 'Retry-After': 'soon' }))).toBe(60);
+  });
+});
+
+describe('scheduleRequest', () => {
+  it('backs off exponentially with jitter up to half below the ceiling, then gives up', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const attempt = vi.fn(() => Promise.resolve(reply(503)));
+    const result = scheduler.scheduleRequest(attempt, { idempotent: true });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(attempt).toHaveBeenCalledTimes(1);
+
+    // Ceilings of 500, 1000 and 2000 ms; the lowest jitter waits half of each.
+    for (const delay of [250, 500, 1000]) {
+      const calls = attempt.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(attempt).toHaveBeenCalledTimes(calls);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(attempt).toHaveBeenCalledTimes(calls + 1);
+    }
+    expect((await result).status).toBe(503);
+    expect(attempt).toHaveBeenCalledTimes(4);
+  });
+
+  it('never waits longer than the ceiling', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    const attempt = vi
+      .fn<() => Promise<Response>>()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(reply(200));
+    const result = scheduler.scheduleRequest(attempt, { idempotent: true });
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect((await result).status).toBe(200);
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not repeat a POST whose outcome is unknown', async () => {
+    const failing = vi.fn(() => Promise.reject(new TypeError('Failed to fetch')));
+    await expect(scheduler.scheduleRequest(failing, { idempotent: false })).rejects.toThrow('Failed to fetch');
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    const gateway = vi.fn(() => Promise.resolve(reply(502)));
+    expect((await scheduler.scheduleRequest(gateway, { idempotent: false })).status).toBe(502);
+    expect(gateway).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays a POST the server rate limited once the cooldown ends', async () => {
+    const attempt = vi
+      .fn<() => Promise<Response>>()
+      .mockResolvedValueOnce(reply(429, { 'Retry-After': '2' }))
+      .mockResolvedValueOnce(reply(201));
+    const result = scheduler.scheduleRequest(attempt, { idempotent: false });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(attempt).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(251);
+    expect((await result).status).toBe(201);
+  });
+
+  it('drops a request aborted while it waits for the cooldown', async () => {
+    const listener = vi.fn();
+    scheduler.setRateLimitListener(listener);
+    const limited = vi
+      .fn<() => Promise<Response>>()
+      .mockResolvedValueOnce(reply(429, { 'Retry-After': '10' }))
+      .mockResolvedValueOnce(reply(200));
+    const first = scheduler.scheduleRequest(limited, { idempotent: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const controller = new AbortController();
+    const waiting = vi.fn(() => Promise.resolve(reply(200)));
+    const second = scheduler.scheduleRequest(waiting, { idempotent: true, signal: controller.signal });
+    const rejection = expect(second).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ retryAfter: 10, pendingCount: 2 }));
+
+    controller.abort();
+    await rejection;
+    expect(waiting).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ pendingCount: 1 }));
+
+    await vi.advanceTimersByTimeAsync(10_251);
+    expect((await first).status).toBe(200);
+    expect(listener).toHaveBeenLastCalledWith(null);
+  });
+});
@@ -0,0 +1,151 @@
+import type { RateLimitInfo } from '../types';
+
+const DEFAULT_RETRY_AFTER = 60;
+const MAX_RATE_LIMIT_RETRIES = 5;
+const MAX_BACKOFF_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+// Spreads queued calls out a little when a cooldown ends so they do not all hit the limit again.
+const RESUME_JITTER_MS = 250;
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+export interface ScheduleOptions {
+  // GET/PUT/DELETE may be repeated safely after a failure of unknown outcome.
+  idempotent: boolean;
+  signal?: AbortSignal;
+}
+
+let cooldownUntil = 0;
+let cooldownSeconds = 0;
+let waiting = 0;
+let cooldownTimer: number | undefined;
+let listener: ((info: RateLimitInfo | null) => void) | null = null;
+
+export function setRateLimitListener(next: ((info: RateLimitInfo | null) => void) | null): void {
+  listener = next;
+}
+
+function emit(): void {
+  const now = Date.now();
+  if (now >= cooldownUntil && waiting === 0) {
+    listener?.(null);
+    return;
+  }
+  listener?.({
+    retryAfter: cooldownSeconds,
+    resumeAt: Math.max(now, cooldownUntil),
+    pendingCount: waiting
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      window.clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function parseRetryAfterHeader(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+// Servers disagree on where the cooldown goes; take the longest one offered.
+export async function readRetryAfter(response: Response): Promise<number> {
+  const fromHeader = parseRetryAfterHeader(response.headers.get('Retry-After'));
+  let fromBody: number | null = null;
+  try {
+    const data = (await response.clone().json()) as {
+      detail?: { retry_after?: number };
+      retry_after?: number;
+    };
+    const value = data.detail?.retry_after ?? data.retry_after;
+    fromBody = typeof value === 'number' && Number.isFinite(value) ? value : null;
+  } catch {
+    fromBody = null;
+  }
+  if (fromHeader === null && fromBody === null) return DEFAULT_RETRY_AFTER;
+  return Math.max(fromHeader ?? 0, fromBody ?? 0);
+}
+
+function startCooldown(seconds: number): void {
+  const until = Date.now() + seconds * 1000;
+  if (until > cooldownUntil) {
+    cooldownUntil = until;
+    cooldownSeconds = seconds;
+    window.clearTimeout(cooldownTimer);
+    cooldownTimer = window.setTimeout(emit, seconds * 1000);
+  }
+}
+
+async function waitForCooldown(signal?: AbortSignal): Promise<void> {
+  if (Date.now() >= cooldownUntil) return;
+  waiting += 1;
+  emit();
+  try {
+    while (Date.now() < cooldownUntil) {
+      await sleep(cooldownUntil - Date.now() + Math.random() * RESUME_JITTER_MS, signal);
+    }
+  } finally {
+    waiting -= 1;
+    emit();
+  }
+}
+
+// Runs a request attempt, holding it while a rate-limit cooldown is active.
+// A 429 means the server did not process the call, so every request is
+// replayed once the cooldown ends; network failures and gateway errors are
+// only retried (with exponential backoff and jitter) for idempotent requests.
+export async function scheduleRequest(
+  attempt: () => Promise<Response>,
+  { idempotent, signal }: ScheduleOptions
+): Promise<Response> {
+  let rateLimitRetries = 0;
+  let failures = 0;
+
+  for (;;) {
+    await waitForCooldown(signal);
+
+    let response: Response;
+    try {
+      response = await attempt();
+    } catch (error) {
+      if (signal?.aborted || !idempotent || !navigator.onLine || failures >= MAX_BACKOFF_RETRIES) {
+        throw error;
+      }
+      failures += 1;
+      await sleep(backoffDelay(failures), signal);
+      continue;
+    }
+
+    if (response.status === 429 && rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+      rateLimitRetries += 1;
+      startCooldown(await readRetryAfter(response));
+      continue;
+    }
+
+    if (idempotent && RETRYABLE_STATUSES.has(response.status) && failures < MAX_BACKOFF_RETRIES) {
+      failures += 1;
+      await sleep(backoffDelay(failures), signal);
+      continue;
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { AdvancedQuery } from '../types';
+import { DEFAULT_LIST_VIEW, hasListView, readListView, readRoute, toLocation, type ListView } from './routing';
+
+describe('readRoute', () => {
+  it('reads the user, deleted and list views', () => {
+    expect(readRoute('/users/abc%20123')).toEqual({ view: 'user', userId: 'abc 123' });
+    expect(readRoute('/deleted/')).toEqual({ view: 'deleted' });
+    expect(readRoute('/')).toEqual({ view: 'list' });
+  });
+
+  it('falls back to the list for anything else', () => {
+    expect(readRoute('/users/')).toEqual({ view: 'list' });
+    expect(readRoute('/users/a/b')).toEqual({ view: 'list' });
+    expect(readRoute('/users/%E0%A4%A')).toEqual({ view: 'list' });
+  });
+});
+
+describe('readListView', () => {
+  it('reads every list parameter', () => {
+    const filter: AdvancedQuery = {
+      combinator: 'and',
+      groups: [{ combinator: 'and', conditions: [{ field: 'city', operator: 'is', value: 'Oslo' }] }]
+    };
+    const search = new URLSearchParams([
+      ['q', 'ali'],
+      ['gender', 'female'],
+      ['department', 'Sales'],
+      ['department', 'Support'],
+      ['city', 'Oslo'],
+      ['sort', 'department,-lastName'],
+      ['filter', JSON.stringify(filter)],
+      ['page', '3']
+    ]);
+    expect(readListView(`?${search.toString()}`)).toEqual({
+      searchQuery: 'ali',
+      genderFilter: 'female',
+      departmentFilters: ['Sales', 'Support'],
+      cityFilters: ['Oslo'],
+      sortKeys: [
+        { field: 'department', order: 'asc' },
+        { field: 'lastName', order: 'desc' }
+      ],
+      advancedQuery: filter,
+      currentPage: 3
+    });
+  });
+
+  it('falls back to the defaults for unknown or malformed values', () => {
+    expect(readListView('?gender=other&sort=salary&page=-2&filter=oops&department=')).toEqual(DEFAULT_LIST_VIEW);
+    expect(readListView('?page=1.5').currentPage).toBe(1);
+  });
+
+  it('honours the separate order of links with a single sort key', () => {
+    expect(readListView('?sort=city&order=desc').sortKeys).toEqual([{ field: 'city', order: 'desc' }]);
+    expect(readListView('?sort=city,email&order=desc').sortKeys).toEqual([
+      { field: 'city', order: 'asc' },
+      { field: 'email', order: 'asc' }
+    ]);
+  });
+
+  it('keeps the first of repeated sort keys', () => {
+    expect(readListView('?sort=-city,city').sortKeys).toEqual([{ field: 'city', order: 'desc' }]);
+  });
+});
+
+describe('toLocation', () => {
+  it('leaves defaults out', () => {
+    expect(toLocation({ view: 'list' }, DEFAULT_LIST_VIEW)).toBe('/');
+    expect(toLocation({ view: 'deleted' }, DEFAULT_LIST_VIEW)).toBe('/deleted');
+  });
+
+  it('writes a view that reads back the same', () => {
+    const view: ListView = {
+      ...DEFAULT_LIST_VIEW,
+      searchQuery: 'dept:"Human Resources"',
+      departmentFilters: ['R&D'],
+      cityFilters: ['New York', 'Oslo'],
+      sortKeys: [
+        { field: 'updatedAt', order: 'desc' },
+        { field: 'firstName', order: 'asc' }
+      ],
+      currentPage: 2
+    };
+    const location = toLocation({ view: 'user', userId: 'u/1' }, view);
+    const url = new URL(location, 'http://localhost');
+
+    expect(url.pathname).toBe('/users/u%2F1');
+    expect(url.searchParams.get('sort')).toBe('-updatedAt,firstName');
+    expect(readRoute(url.pathname)).toEqual({ view: 'user', userId: 'u/1' });
+    expect(readListView(url.search)).toEqual(view);
+  });
+});
+
+describe('hasListView', () => {
+  it('is true only for links that carry list parameters', () => {
+    expect(hasListView('?q=ali')).toBe(true);
+    expect(hasListView('?city=Oslo')).toBe(true);
+    expect(hasListView('?reset_token=abc')).toBe(false);
+    expect(hasListView('')).toBe(false);
+  });
+});
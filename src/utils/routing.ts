@@ -0,0 +1,140 @@
+import type { GenderFilter, UserSortBy } from '../store/usersSlice';
+import type { AdvancedQuery, SortKey } from '../types';
+import { EMPTY_QUERY, decodeQuery, encodeQuery } from './advancedQuery';
+
+// Client-side routes: the path says what is open over the list and the query
+// string carries the list view, so every screen can be shared as a link.
+
+export type AppRoute = { view: 'list' } | { view: 'user'; userId: string } | { view: 'deleted' };
+
+export interface ListView {
+  searchQuery: string;
+  genderFilter: GenderFilter;
+  departmentFilters: string[];
+  cityFilters: string[];
+  sortKeys: SortKey[];
+  advancedQuery: AdvancedQuery;
+  currentPage: number;
+}
+
+export const DEFAULT_LIST_VIEW: ListView = {
+  searchQuery: '',
+  genderFilter: 'all',
+  departmentFilters: [],
+  cityFilters: [],
+  sortKeys: [{ field: 'firstName', order: 'asc' }],
+  advancedQuery: EMPTY_QUERY,
+  currentPage: 1
+};
+
+const GENDERS: GenderFilter[] = ['male', 'female'];
+const SORT_FIELDS: UserSortBy[] = ['firstName', 'lastName', 'email', 'department', 'city', 'createdAt', 'updatedAt'];
+// Sortable on every backend; the others need the multiSort capability.
+export const BASIC_SORT_FIELDS: UserSortBy[] = ['firstName', 'lastName', 'department', 'city'];
+
+// Order-insensitive, since a selection is a set of values.
+export function sameSelection(current: string[], next: string[]): boolean {
+  return current.length === next.length && next.every((value) => current.includes(value));
+}
+
+export function sameSortKeys(current: SortKey[], next: SortKey[]): boolean {
+  return (
+    current.length === next.length &&
+    next.every((key, index) => key.field === current[index].field && key.order === current[index].order)
+  );
+}
+
+// "department,-lastName" is department ascending, then last name descending.
+function readSortKeys(sort: string | null, order: string | null): SortKey[] {
+  const keys: SortKey[] = [];
+  (sort ?? '').split(',').forEach((part) => {
+    const descending = part.startsWith('-');
+    const field = SORT_FIELDS.find((candidate) => candidate === (descending ? part.slice(1) : part));
+    if (field && !keys.some((key) => key.field === field)) keys.push({ field, order: descending ? 'desc' : 'asc' });
+  });
+  if (keys.length === 0) return DEFAULT_LIST_VIEW.sortKeys;
+  // Links from before multi-key sorting give the direction of their one key separately.
+  if (keys.length === 1 && order === 'desc') keys[0].order = 'desc';
+  return keys;
+}
+
+// The part of a sort a backend without the multiSort capability can apply: its main
+// key, when that is a field the backend knows.
+export function basicSortKeys(keys: SortKey[]): SortKey[] {
+  const [primary] = keys;
+  return primary && BASIC_SORT_FIELDS.includes(primary.field) ? [primary] : DEFAULT_LIST_VIEW.sortKeys;
+}
+
+function writeSortKeys(keys: SortKey[]): string {
+  return keys.map((key) => `${key.order === 'desc' ? '-' : ''}${key.field}`).join(',');
+}
+
+function pickOne<T extends string>(value: string | null, allowed: T[], fallback: T): T {
+  return allowed.find((candidate) => candidate === value) ?? fallback;
+}
+
+// Path relative to the app's base URL, without leading or trailing slashes.
+function appPath(pathname: string): string {
+  const base = import.meta.env.BASE_URL;
+  const path = pathname.startsWith(base) ? pathname.slice(base.length) : pathname;
+  return path.replace(/^\/+|\/+$/g, '');
+}
+
+export function readRoute(pathname: string): AppRoute {
+  const path = appPath(pathname);
+  if (path === 'deleted') return { view: 'deleted' };
+  const match = /^users\/([^/]+)$/.exec(path);
+  if (match) {
+    try {
+      return { view: 'user', userId: decodeURIComponent(match[1]) };
+    } catch {
+      return { view: 'list' };
+    }
+  }
+  return { view: 'list' };
+}
+
+const LIST_VIEW_PARAMS = ['q', 'gender', 'department', 'city', 'sort', 'order', 'filter', 'page'];
+
+// True when a link spells out its own list view, which then wins over the admin's default view.
+export function hasListView(search: string): boolean {
+  const params = new URLSearchParams(search);
+  return LIST_VIEW_PARAMS.some((name) => params.has(name));
+}
+
+// Unknown or malformed parameters fall back to the defaults instead of failing.
+export function readListView(search: string): ListView {
+  const params = new URLSearchParams(search);
+  const page = Number(params.get('page'));
+  return {
+    searchQuery: params.get('q') ?? DEFAULT_LIST_VIEW.searchQuery,
+    genderFilter: pickOne(params.get('gender'), GENDERS, DEFAULT_LIST_VIEW.genderFilter),
+    departmentFilters: params.getAll('department').filter(Boolean),
+    cityFilters: params.getAll('city').filter(Boolean),
+    sortKeys: readSortKeys(params.get('sort'), params.get('order')),
+    advancedQuery: decodeQuery(params.get('filter')),
+    currentPage: Number.isInteger(page) && page > 1 ? page : DEFAULT_LIST_VIEW.currentPage
+  };
+}
+
+// Defaults are left out so the plain list stays at the bare base URL.
+export function toLocation(route: AppRoute, view: ListView): string {
+  const params = new URLSearchParams();
+  if (view.searchQuery) params.set('q', view.searchQuery);
+  if (view.genderFilter !== DEFAULT_LIST_VIEW.genderFilter) params.set('gender', view.genderFilter);
+  view.departmentFilters.forEach((department) => params.append('department', department));
+  view.cityFilters.forEach((city) => params.append('city', city));
+  if (!sameSortKeys(view.sortKeys, DEFAULT_LIST_VIEW.sortKeys)) params.set('sort', writeSortKeys(view.sortKeys));
+  const filter = encodeQuery(view.advancedQuery);
+  if (filter) params.set('filter', filter);
+  if (view.currentPage !== DEFAULT_LIST_VIEW.currentPage) params.set('page', String(view.currentPage));
+
+  const path =
+    route.view === 'user' ? `users/${encodeURIComponent(route.userId)}` : route.view === 'deleted' ? 'deleted' : '';
+  const query = params.toString();
+  return `${import.meta.env.BASE_URL}${path}${query ? `?${query}` : ''}`;
+}
+
+export function currentLocation(): string {
+  return `${window.location.pathname}${window.location.search}`;
+}
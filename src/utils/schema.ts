@@ -0,0 +1,150 @@
+// Minimal declarative runtime schemas for API payloads. Each schema carries
+// the TypeScript type it describes, so `object<T>()` fails to compile when a
+// schema drifts from its interface in types.ts.
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+  // The value is not the kind of value expected at all, as opposed to breaking a rule.
+  wrongType?: boolean;
+}
+
+export interface Schema<T> {
+  readonly description: string;
+  // Optional fields may be absent from an object.
+  readonly optional?: boolean;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+  // Phantom field; never set at runtime.
+  readonly __type?: T;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  return typeof value;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(description: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    description,
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path, message: `expected ${description}, got ${describe(value)}`, wrongType: true });
+      }
+    }
+  };
+}
+
+export const string = (): Schema<string> => primitive('string', (value) => typeof value === 'string');
+
+export const number = (): Schema<number> =>
+  primitive('number', (value) => typeof value === 'number' && Number.isFinite(value));
+
+export const boolean = (): Schema<boolean> => primitive('boolean', (value) => typeof value === 'boolean');
+
+export function oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+  return primitive(values.map((value) => JSON.stringify(value)).join(' | '), (value) =>
+    values.includes(value as string)
+  );
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    description: schema.description,
+    optional: true,
+    check(value, path, issues) {
+      if (value !== undefined) schema.check(value, path, issues);
+    }
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    description: `${schema.description} | null`,
+    check(value, path, issues) {
+      if (value !== null) schema.check(value, path, issues);
+    }
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describe(value)}`, wrongType: true });
+        return;
+      }
+      value.forEach((entry, index) => item.check(entry, join(path, index), issues));
+    }
+  };
+}
+
+// Unknown keys are allowed; servers may send more than the UI reads.
+export function object<T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    description: 'object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}`, wrongType: true });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      (Object.keys(shape) as Array<keyof T & string>).forEach((key) => {
+        const fieldSchema = shape[key] as Schema<unknown>;
+        if (!(key in record) && !fieldSchema.optional) {
+          issues.push({ path: join(path, key), message: 'is missing' });
+          return;
+        }
+        fieldSchema.check(record[key], join(path, key), issues);
+      });
+    }
+  };
+}
+
+export function anyOf<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+  return {
+    description: `${first.description} | ${second.description}`,
+    check(value, path, issues) {
+      const firstIssues: SchemaIssue[] = [];
+      first.check(value, path, firstIssues);
+      if (firstIssues.length === 0) return;
+      const secondIssues: SchemaIssue[] = [];
+      second.check(value, path, secondIssues);
+      if (secondIssues.length === 0) return;
+      issues.push({
+        path,
+        message: `expected ${first.description} | ${second.description}, got ${describe(value)}`,
+        wrongType: true
+      });
+    }
+  };
+}
+
+// Adds a cross-field rule on top of a schema, e.g. "either _id or id".
+export function refine<T>(schema: Schema<T>, test: (value: T) => boolean, message: string): Schema<T> {
+  return {
+    description: schema.description,
+    check(value, path, issues) {
+      const before = issues.length;
+      schema.check(value, path, issues);
+      if (issues.length === before && !test(value as T)) issues.push({ path, message });
+    }
+  };
+}
+
+export function validate<T>(schema: Schema<T>, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, '', issues);
+  return issues;
+}
+
+export function formatSchemaIssue(issue: SchemaIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
@@ -0,0 +1,60 @@
+import { parseSearch } from './searchSyntax';
+
+// Finds where the free-text part of a search appears in what a card shows.
+// Matching ignores case and accents ("chloe" finds "Chloé") and any part of a
+// word counts ("ali" finds "Alice").
+
+export type MatchRange = [start: number, end: number];
+
+// Quoted phrases stay whole; other words are matched one by one. Qualifiers and
+// excluded words are left out, since they never explain why a user is listed.
+export function searchTerms(searchQuery: string): string[] {
+  const terms = parseSearch(searchQuery, { extended: true })
+    .filter((token) => !token.error && token.fieldName === undefined && !token.negated)
+    .flatMap((token) => (token.quoted ? [token.value] : token.value.split(/\s+/)))
+    .map(fold)
+    .filter(Boolean);
+  return [...new Set(terms)];
+}
+
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+// The folded text, plus where each of its characters starts in the original.
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const part = fold(char);
+    folded += part;
+    for (let i = 0; i < part.length; i += 1) offsets.push(index);
+    index += char.length;
+  }
+  offsets.push(text.length);
+  return { folded, offsets };
+}
+
+// Ranges in the original text, sorted and merged where they overlap.
+export function findMatches(text: string, terms: string[]): MatchRange[] {
+  if (!text || terms.length === 0) return [];
+  const { folded, offsets } = foldWithOffsets(text);
+  const ranges: MatchRange[] = [];
+  terms.forEach((term) => {
+    for (let at = folded.indexOf(term); at !== -1; at = folded.indexOf(term, at + 1)) {
+      ranges.push([offsets[at], offsets[at + term.length]]);
+    }
+  });
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+    return merged;
+  }, []);
+}
+
+export function matchesAny(text: string | undefined, terms: string[]): boolean {
+  return Boolean(text) && terms.some((term) => fold(text ?? '').includes(term));
+}
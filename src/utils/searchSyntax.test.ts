@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { formatValue, liftSearch, parseSearch, toSearchParams, type SearchFilterState } from './searchSyntax';
+
+const extended = { extended: true };
+const basic = { extended: false };
+const noFilters: SearchFilterState = { genderFilter: 'all', departmentFilters: [], cityFilters: [] };
+
+describe('parseSearch', () => {
+  it('splits free text, phrases, qualifiers and negations', () => {
+    const input = 'alice "New York" -dept:Sales city:"San Jose" -bob';
+    const tokens = parseSearch(input, extended).map(({ negated, fieldName, field, value, quoted }) => ({
+      negated,
+      fieldName,
+      field,
+      value,
+      quoted
+    }));
+    expect(tokens).toEqual([
+      { negated: false, fieldName: undefined, field: undefined, value: 'alice', quoted: false },
+      { negated: false, fieldName: undefined, field: undefined, value: 'New York', quoted: true },
+      { negated: true, fieldName: 'dept', field: 'department', value: 'Sales', quoted: false },
+      { negated: false, fieldName: 'city', field: 'city', value: 'San Jose', quoted: true },
+      { negated: true, fieldName: undefined, field: undefined, value: 'bob', quoted: false }
+    ]);
+  });
+
+  it('keeps token spans so the input can be highlighted', () => {
+    const input = '  dept:HR  -x';
+    expect(parseSearch(input, extended).map((token) => input.slice(token.start, token.end))).toEqual(['dept:HR', '-x']);
+  });
+
+  it('reads a lone dash as text', () => {
+    expect(parseSearch('a - b', basic).map((token) => [token.value, token.negated, token.error])).toEqual([
+      ['a', false, undefined],
+      ['-', false, undefined],
+      ['b', false, undefined]
+    ]);
+  });
+
+  it('flags mistakes', () => {
+    const errors = parseSearch('salary:100 dept: gender:other "open', extended).map((token) => token.error);
+    expect(errors).toEqual([
+      'Unknown field "salary". Try dept, city, gender or status',
+      'dept: needs a value',
+      'gender: is male or female',
+      'Missing closing quote'
+    ]);
+  });
+
+  it('flags what the server cannot apply, apart from mistakes', () => {
+    const tokens = parseSearch('-bob -dept:Sales status:active -gender:male city:Oslo -nope:x', basic);
+    expect(tokens.map((token) => [token.error, token.unsupported])).toEqual([
+      ['This server cannot exclude words from the search', true],
+      ['This server cannot exclude a dept', true],
+      ['This server cannot filter by status', true],
+      [undefined, undefined],
+      [undefined, undefined],
+      ['Unknown field "nope". Try dept, city, gender or status', undefined]
+    ]);
+    expect(parseSearch('-bob -dept:Sales status:active', extended).every((token) => !token.error)).toBe(true);
+  });
+});
+
+describe('toSearchParams', () => {
+  it('maps qualifiers onto request parameters', () => {
+    const input = 'alice -bob dept:Sales -city:Oslo status:active -status:inactive';
+    expect(toSearchParams(input, noFilters, extended)).toEqual({
+      search: 'alice',
+      gender: undefined,
+      departments: ['Sales'],
+      cities: undefined,
+      statuses: ['active'],
+      excludeTerms: ['bob'],
+      excludeDepartments: undefined,
+      excludeCities: ['Oslo'],
+      excludeStatuses: ['inactive']
+    });
+  });
+
+  it('never sends exclusions or statuses to a server that cannot apply them', () => {
+    const params = toSearchParams('alice -bob -dept:Sales status:active', noFilters, basic);
+    expect(params).toMatchObject({ search: 'alice', departments: undefined, statuses: undefined });
+    expect(params.excludeTerms).toBeUndefined();
+    expect(params.excludeDepartments).toBeUndefined();
+  });
+
+  it('adds typed values to the selected filters and lets a typed gender win', () => {
+    const filters: SearchFilterState = { genderFilter: 'male', departmentFilters: ['HR'], cityFilters: ['Oslo'] };
+    expect(toSearchParams('dept:Sales city:Oslo -gender:male', filters, basic)).toMatchObject({
+      gender: 'female',
+      departments: ['HR', 'Sales'],
+      cities: ['Oslo']
+    });
+    expect(toSearchParams('', filters, basic).gender).toBe('male');
+  });
+
+  it('leaves out tokens with mistakes', () => {
+    expect(toSearchParams('dept: "open', noFilters, extended)).toMatchObject({ search: '', departments: undefined });
+  });
+});
+
+describe('liftSearch', () => {
+  const known = { departments: ['Sales', 'Human Resources'], cities: ['New York'] };
+
+  it('moves department, city and gender qualifiers into the filters', () => {
+    expect(liftSearch('alice dept:sales city:"new york" -gender:female', known)).toEqual({
+      searchQuery: 'alice',
+      genderFilter: 'male',
+      departments: ['Sales'],
+      cities: ['New York']
+    });
+  });
+
+  it('keeps exclusions, statuses and mistakes as typed', () => {
+    expect(liftSearch('-dept:Sales status:active dept:Legal -bob salary:1', known)).toEqual({
+      searchQuery: '-dept:Sales status:active -bob salary:1',
+      departments: ['Legal'],
+      cities: []
+    });
+  });
+});
+
+describe('formatValue', () => {
+  it('quotes values that would split', () => {
+    expect(formatValue('Sales')).toBe('Sales');
+    expect(formatValue('New York')).toBe('"New York"');
+    expect(formatValue('a "b" c')).toBe('"a b c"');
+  });
+});
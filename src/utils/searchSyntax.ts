@@ -0,0 +1,202 @@
+import type { GenderFilter } from '../store/usersSlice';
+import type { UserFacetParams } from './apiClient';
+
+// Query language of the header search box, e.g.
+//   dept:Sales city:"New York" -gender:male status:active alice
+// Bare words and "quoted phrases" are free text, field:value narrows by one
+// field and a leading - negates either.
+
+export type SearchField = 'department' | 'city' | 'gender' | 'status';
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  dept: 'department',
+  department: 'department',
+  city: 'city',
+  gender: 'gender',
+  status: 'status'
+};
+
+// The names autocomplete offers, one per field.
+export const SEARCH_FIELD_NAMES: Array<{ name: string; field: SearchField }> = [
+  { name: 'dept', field: 'department' },
+  { name: 'city', field: 'city' },
+  { name: 'gender', field: 'gender' },
+  { name: 'status', field: 'status' }
+];
+
+export const GENDER_VALUES = ['male', 'female'] as const;
+export const STATUS_VALUES = ['active', 'inactive'];
+
+export interface SearchToken {
+  // Span in the input, including the - and the quotes.
+  start: number;
+  end: number;
+  negated: boolean;
+  // The field name as typed, e.g. "dept"; absent for free text.
+  fieldName?: string;
+  field?: SearchField;
+  value: string;
+  quoted: boolean;
+  error?: string;
+  // The error is that this backend cannot apply the token, which typing on will not fix.
+  unsupported?: boolean;
+}
+
+export interface ParseOptions {
+  // The backend understands status and exclusions (the searchQualifiers capability).
+  extended: boolean;
+}
+
+function readValue(input: string, start: number): { value: string; end: number; quoted: boolean; closed: boolean } {
+  if (input[start] === '"') {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) return { value: input.slice(start + 1), end: input.length, quoted: true, closed: false };
+    return { value: input.slice(start + 1, close), end: close + 1, quoted: true, closed: true };
+  }
+  let end = start;
+  while (end < input.length && !/\s/.test(input[end])) end += 1;
+  return { value: input.slice(start, end), end, quoted: false, closed: true };
+}
+
+// Only applied in full by backends with the searchQualifiers capability;
+// everything else maps onto the filters every backend has.
+function needsExtended(token: SearchToken): boolean {
+  if (token.field === 'status') return true;
+  if (token.field === 'gender') return false;
+  return token.negated;
+}
+
+function findError(token: SearchToken, closed: boolean): string | undefined {
+  if (!closed) return 'Missing closing quote';
+  if (token.fieldName === undefined) return undefined;
+  if (!token.field) return `Unknown field "${token.fieldName}". Try dept, city, gender or status`;
+  if (!token.value.trim()) return `${token.fieldName}: needs a value`;
+  if (token.field === 'gender' && !GENDER_VALUES.some((gender) => gender === token.value.toLowerCase())) {
+    return 'gender: is male or female';
+  }
+  return undefined;
+}
+
+function findUnsupported(token: SearchToken, options: ParseOptions): string | undefined {
+  if (options.extended || !needsExtended(token)) return undefined;
+  if (token.field === 'status') return 'This server cannot filter by status';
+  return token.field
+    ? `This server cannot exclude a ${token.fieldName}`
+    : 'This server cannot exclude words from the search';
+}
+
+export function parseSearch(input: string, options: ParseOptions): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  let index = 0;
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index += 1;
+      continue;
+    }
+    const start = index;
+    // A lone "-" is just text.
+    const negated = input[index] === '-' && index + 1 < input.length && !/\s/.test(input[index + 1]);
+    if (negated) index += 1;
+    const name = /^([A-Za-z]+):/.exec(input.slice(index));
+    if (name) index += name[0].length;
+    const { value, end, quoted, closed } = readValue(input, index);
+    index = end;
+
+    const token: SearchToken = { start, end, negated, value, quoted };
+    if (name) {
+      token.fieldName = name[1];
+      token.field = FIELD_ALIASES[name[1].toLowerCase()];
+    }
+    const mistake = findError(token, closed);
+    const unsupported = mistake ? undefined : findUnsupported(token, options);
+    token.error = mistake ?? unsupported;
+    if (unsupported) token.unsupported = true;
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+function genderOf(token: SearchToken): Exclude<GenderFilter, 'all'> {
+  return (token.value.toLowerCase() === 'male') !== token.negated ? 'male' : 'female';
+}
+
+export interface SearchFilterState {
+  genderFilter: GenderFilter;
+  departmentFilters: string[];
+  cityFilters: string[];
+}
+
+function union(selected: string[], typed: string[]): string[] | undefined {
+  const values = [...selected, ...typed.filter((value) => !selected.includes(value))];
+  return values.length > 0 ? values : undefined;
+}
+
+function nonEmpty(values: string[]): string[] | undefined {
+  return values.length > 0 ? values : undefined;
+}
+
+// Request parameters for the search box together with the filter controls. Typed
+// departments and cities add to the selected ones, a typed gender wins over the
+// dropdown, and tokens with errors are left out.
+export function toSearchParams(
+  searchQuery: string,
+  filters: SearchFilterState,
+  options: ParseOptions
+): Omit<UserFacetParams, 'filter'> {
+  const valid = parseSearch(searchQuery, options).filter((token) => !token.error && token.value.trim());
+  const values = (field: SearchField | undefined, negated: boolean) =>
+    valid.filter((token) => token.field === field && token.negated === negated).map((token) => token.value);
+  const gender = valid.filter((token) => token.field === 'gender').pop();
+
+  return {
+    search: values(undefined, false).join(' '),
+    gender: gender ? genderOf(gender) : filters.genderFilter !== 'all' ? filters.genderFilter : undefined,
+    departments: union(filters.departmentFilters, values('department', false)),
+    cities: union(filters.cityFilters, values('city', false)),
+    statuses: nonEmpty(values('status', false)),
+    excludeTerms: nonEmpty(values(undefined, true)),
+    excludeDepartments: nonEmpty(values('department', true)),
+    excludeCities: nonEmpty(values('city', true)),
+    excludeStatuses: nonEmpty(values('status', true))
+  };
+}
+
+export interface LiftedSearch {
+  // What stays in the search box.
+  searchQuery: string;
+  genderFilter?: Exclude<GenderFilter, 'all'>;
+  departments: string[];
+  cities: string[];
+}
+
+// Spelled the way the filter controls list it, so "dept:sales" ticks "Sales".
+function canonical(value: string, known: string[]): string {
+  return known.find((candidate) => candidate.toLowerCase() === value.toLowerCase()) ?? value;
+}
+
+// Moves the qualifiers the filter controls can show (department, city and gender)
+// out of the text and into those controls. Everything else stays as typed.
+export function liftSearch(input: string, known: { departments: string[]; cities: string[] }): LiftedSearch {
+  const lifted: LiftedSearch = { searchQuery: '', departments: [], cities: [] };
+  const kept: string[] = [];
+  parseSearch(input, { extended: true }).forEach((token) => {
+    if (token.error) {
+      kept.push(input.slice(token.start, token.end));
+    } else if (token.field === 'gender') {
+      lifted.genderFilter = genderOf(token);
+    } else if (token.field === 'department' && !token.negated) {
+      lifted.departments.push(canonical(token.value, known.departments));
+    } else if (token.field === 'city' && !token.negated) {
+      lifted.cities.push(canonical(token.value, known.cities));
+    } else {
+      kept.push(input.slice(token.start, token.end));
+    }
+  });
+  lifted.searchQuery = kept.join(' ');
+  return lifted;
+}
+
+// Quotes a value for insertion when it would otherwise split into two tokens.
+export function formatValue(value: string): string {
+  return /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -11,6 +12,9 @@ export default defineConfig({
         changeOrigin: true
       }
     }
+  },
+  test: {
+    // The store and the mock backend read window, localStorage and IndexedDB.
+    environment: 'jsdom'
   }
 });
-